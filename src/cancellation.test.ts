@@ -0,0 +1,122 @@
+/**
+ * HTTP cancellation tests against a local stub server
+ *
+ * Uses the real OCI SDK (no module mocks) to verify that aborting a call or
+ * cancelling a stream actually closes the underlying connection.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as common from 'oci-common';
+import { createOCI } from './index.js';
+
+const { privateKey } = crypto.generateKeyPairSync('rsa', {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: 'spki', format: 'pem' },
+  privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+});
+
+describe('HTTP Cancellation', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let mode: 'hang' | 'stream';
+  let requestReceived: Promise<void>;
+  let socketClosed: Promise<void>;
+
+  const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'Hi' }] }];
+
+  beforeEach(async () => {
+    let markReceived!: () => void;
+    let markClosed!: () => void;
+    requestReceived = new Promise(resolve => (markReceived = resolve));
+    socketClosed = new Promise(resolve => (markClosed = resolve));
+
+    server = http.createServer((req, res) => {
+      req.socket.on('close', markClosed);
+      markReceived();
+      if (mode === 'stream') {
+        res.writeHead(200, { 'content-type': 'text/event-stream' });
+        res.write('data: {"message":{"role":"ASSISTANT","content":[{"type":"TEXT","text":"Hello"}]}}\n\n');
+      }
+      // Otherwise never respond, like a slow model
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function createModel() {
+    const provider = createOCI({
+      compartmentId: 'ocid1.compartment.oc1..test',
+      region: 'us-chicago-1',
+      endpoint: baseUrl,
+      retry: false,
+      authProvider: new common.SimpleAuthenticationDetailsProvider(
+        'ocid1.tenancy.oc1..test',
+        'ocid1.user.oc1..test',
+        '00:11:22:33',
+        privateKey,
+        null
+      ),
+    });
+    return provider.languageModel('meta.llama-3.3-70b-instruct') as any;
+  }
+
+  it('should close the connection when doGenerate is aborted', async () => {
+    mode = 'hang';
+    const model = createModel();
+    const controller = new AbortController();
+
+    const result = model.doGenerate({ prompt, abortSignal: controller.signal });
+    await requestReceived;
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    await socketClosed;
+  });
+
+  it('should close the connection when a stream is aborted mid-response', async () => {
+    mode = 'stream';
+    const model = createModel();
+    const controller = new AbortController();
+
+    const { stream } = await model.doStream({ prompt, abortSignal: controller.signal });
+    const reader = stream.getReader();
+    let part;
+    do {
+      part = (await reader.read()).value;
+    } while (part?.type !== 'text-delta');
+    expect(part.delta).toBe('Hello');
+
+    controller.abort();
+
+    const rest: any[] = [];
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      rest.push(value);
+    }
+    expect(rest.find(p => p.type === 'error')?.error).toMatchObject({ name: 'AbortError' });
+    await socketClosed;
+  });
+
+  it('should close the connection when the consumer cancels the stream', async () => {
+    mode = 'stream';
+    const model = createModel();
+
+    const { stream } = await model.doStream({ prompt });
+    const reader = stream.getReader();
+    let part;
+    do {
+      part = (await reader.read()).value;
+    } while (part?.type !== 'text-delta');
+
+    await reader.cancel();
+    await socketClosed;
+  });
+});
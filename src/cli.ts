@@ -12,7 +12,10 @@ import * as path from 'path';
 import * as common from 'oci-common';
 import * as genai from 'oci-generativeai';
 import * as inference from 'oci-generativeaiinference';
-import { REGIONS, formatRegionChoice, getAllRegionIds } from './data/regions.js';
+import { formatRegionChoice, getAllRegionIds } from './data/regions.js';
+import { getCapabilityLabels, getModelInfo, getModelsForRegion, type ModelInfo } from './data/models.js';
+import { discoverModels, type OCIModelCapability } from './discovery.js';
+import { normalizeEndpoint } from './index.js';
 
 interface SetupConfig {
   profile: string;
@@ -22,63 +25,21 @@ interface SetupConfig {
   modelId?: string;
   endpointId?: string;
   customModelName?: string;
+  /** Inference base URL override (private endpoint, proxy or mock server) */
+  endpoint?: string;
 }
 
-interface ModelInfo {
-  id: string;
-  name: string;
-  vendor: string;
-  capabilities: string[];
-}
-
-/**
- * Known foundation models - we'll probe these to see which are available
- */
-const KNOWN_MODELS: ModelInfo[] = [
-  // Cohere models
-  { id: 'cohere.command-a-reasoning-08-2025', name: 'Cohere Command A Reasoning', vendor: 'cohere', capabilities: ['chat', 'reasoning'] },
-  { id: 'cohere.command-a-vision-07-2025', name: 'Cohere Command A Vision', vendor: 'cohere', capabilities: ['chat', 'vision'] },
-  { id: 'cohere.command-a-03-2025', name: 'Cohere Command A', vendor: 'cohere', capabilities: ['chat'] },
-  { id: 'cohere.command-r-08-2024', name: 'Cohere Command R', vendor: 'cohere', capabilities: ['chat'] },
-  { id: 'cohere.command-r-plus-08-2024', name: 'Cohere Command R+', vendor: 'cohere', capabilities: ['chat'] },
-
-  // Google models
-  { id: 'google.gemini-2.5-pro', name: 'Google Gemini 2.5 Pro', vendor: 'google', capabilities: ['chat', 'vision'] },
-  { id: 'google.gemini-2.5-flash', name: 'Google Gemini 2.5 Flash', vendor: 'google', capabilities: ['chat', 'vision'] },
-  { id: 'google.gemini-2.5-flash-lite', name: 'Google Gemini 2.5 Flash Lite', vendor: 'google', capabilities: ['chat'] },
-  { id: 'google.gemini-2.0-flash-001', name: 'Google Gemini 2.0 Flash', vendor: 'google', capabilities: ['chat'] },
-  { id: 'google.gemini-1.5-pro-002', name: 'Google Gemini 1.5 Pro', vendor: 'google', capabilities: ['chat', 'vision'] },
-
-  // Meta models
-  { id: 'meta.llama-4-maverick-17b-128e-instruct-fp8', name: 'Meta Llama 4 Maverick 17B', vendor: 'meta', capabilities: ['chat'] },
-  { id: 'meta.llama-4-scout-17b-16e-instruct', name: 'Meta Llama 4 Scout 17B', vendor: 'meta', capabilities: ['chat'] },
-  { id: 'meta.llama-3.3-70b-instruct', name: 'Meta Llama 3.3 70B', vendor: 'meta', capabilities: ['chat'] },
-  { id: 'meta.llama-3.2-90b-vision-instruct', name: 'Meta Llama 3.2 90B Vision', vendor: 'meta', capabilities: ['chat', 'vision'] },
-  { id: 'meta.llama-3.2-11b-vision-instruct', name: 'Meta Llama 3.2 11B Vision', vendor: 'meta', capabilities: ['chat', 'vision'] },
-  { id: 'meta.llama-3.1-405b-instruct', name: 'Meta Llama 3.1 405B', vendor: 'meta', capabilities: ['chat'] },
-
-  // xAI models (US regions only: Ashburn, Chicago, Phoenix)
-  { id: 'xai.grok-4-1-fast-reasoning', name: 'xAI Grok 4.1 Fast (Reasoning)', vendor: 'xai', capabilities: ['chat', 'vision', 'reasoning'] },
-  { id: 'xai.grok-4-1-fast-non-reasoning', name: 'xAI Grok 4.1 Fast', vendor: 'xai', capabilities: ['chat', 'vision'] },
-  { id: 'xai.grok-4-fast', name: 'xAI Grok 4 Fast', vendor: 'xai', capabilities: ['chat'] },
-  { id: 'xai.grok-4', name: 'xAI Grok 4', vendor: 'xai', capabilities: ['chat'] },
-  { id: 'xai.grok-3-fast', name: 'xAI Grok 3 Fast', vendor: 'xai', capabilities: ['chat'] },
-  { id: 'xai.grok-3', name: 'xAI Grok 3', vendor: 'xai', capabilities: ['chat'] },
-  { id: 'xai.grok-3-mini', name: 'xAI Grok 3 Mini (Reasoning)', vendor: 'xai', capabilities: ['chat', 'reasoning'] },
-  { id: 'xai.grok-3-mini-fast', name: 'xAI Grok 3 Mini Fast (Reasoning)', vendor: 'xai', capabilities: ['chat', 'reasoning'] },
-  { id: 'xai.grok-code-fast-1', name: 'xAI Grok Code Fast', vendor: 'xai', capabilities: ['chat', 'code'] },
-
-  // OpenAI models
-  { id: 'openai.gpt-oss-120b', name: 'OpenAI GPT OSS 120B', vendor: 'openai', capabilities: ['chat'] },
-  { id: 'openai.gpt-oss-20b', name: 'OpenAI GPT OSS 20B', vendor: 'openai', capabilities: ['chat'] },
-];
-
 async function main() {
   console.log(chalk.bold.cyan('\n🚀 OpenCode OCI GenAI Setup\n'));
   console.log(chalk.gray('This wizard will configure OCI GenAI for use with OpenCode.\n'));
 
   const config: Partial<SetupConfig> = {};
 
+  config.endpoint = process.env.OCI_GENAI_BASE_URL || undefined;
+  if (config.endpoint) {
+    console.log(chalk.gray(`Using inference endpoint from OCI_GENAI_BASE_URL: ${config.endpoint}\n`));
+  }
+
   // Step 1: Select OCI config profile
   config.profile = await selectProfile();
 
@@ -203,11 +164,10 @@ async function selectServingMode(): Promise<'on-demand' | 'dedicated'> {
 }
 
 /**
- * Probe the OCI GenAI API to discover which models are actually available
+ * Create an inference client for the selected profile and region, honoring
+ * an endpoint override the same way the provider does
  */
-async function discoverAvailableModels(config: SetupConfig): Promise<ModelInfo[]> {
-  console.log(chalk.gray('\n🔍 Discovering available models in your region...'));
-
+function createInferenceClient(config: SetupConfig): inference.GenerativeAiInferenceClient {
   const provider = new common.ConfigFileAuthenticationDetailsProvider(
     undefined,
     config.profile
@@ -221,70 +181,103 @@ async function discoverAvailableModels(config: SetupConfig): Promise<ModelInfo[]
     client.region = common.Region.fromRegionId(config.region);
   }
 
-  const availableModels: ModelInfo[] = [];
-  const checkPromises: Promise<void>[] = [];
-
-  // Check models in parallel with concurrency limit
-  const concurrencyLimit = 5;
-  let activeChecks = 0;
-
-  for (const model of KNOWN_MODELS) {
-    const checkModel = async () => {
-      try {
-        // Send a minimal request to see if the model exists
-        await client.chat({
-          chatDetails: {
-            compartmentId: config.compartmentId,
-            servingMode: {
-              servingType: 'ON_DEMAND',
-              modelId: model.id,
-            },
-            chatRequest: {
-              apiFormat: 'GENERIC',
-              messages: [
-                {
-                  role: 'USER',
-                  content: [{ type: 'TEXT', text: 'hi' } as inference.models.TextContent],
-                },
-              ],
-              maxTokens: 1,
-            } as inference.models.GenericChatRequest,
-          },
-        });
-
-        // If we get here, model is available
-        availableModels.push(model);
-        process.stdout.write(chalk.green('✓'));
-      } catch (error: any) {
-        const message = error.message || '';
-        // Model not found errors
-        if (message.includes('not found') || message.includes('Entity with key')) {
-          process.stdout.write(chalk.gray('·'));
-        } else {
-          // Other errors might still mean the model exists but something else failed
-          // For now, mark as unavailable
-          process.stdout.write(chalk.yellow('?'));
-        }
-      }
-    };
+  // Must come after the region, which resets the endpoint. The SDK appends the API version.
+  if (config.endpoint) {
+    client.endpoint = normalizeEndpoint(config.endpoint);
+  }
 
-    checkPromises.push(checkModel());
+  return client;
+}
 
-    // Rate limit
-    if (checkPromises.length >= concurrencyLimit) {
-      await Promise.all(checkPromises);
-      checkPromises.length = 0;
-    }
+/**
+ * Minimal chat request in the API format the model expects
+ */
+function createProbeRequest(modelId: string, text: string, maxTokens: number): inference.models.BaseChatRequest {
+  const { apiFormat } = getModelInfo(modelId);
+
+  if (apiFormat === 'COHERE') {
+    return { apiFormat, message: text, maxTokens } as inference.models.CohereChatRequest;
   }
 
-  // Wait for remaining checks
-  if (checkPromises.length > 0) {
-    await Promise.all(checkPromises);
+  if (apiFormat === 'COHEREV2') {
+    return {
+      apiFormat,
+      messages: [
+        {
+          role: 'USER',
+          content: [{ type: 'TEXT', text } as inference.models.CohereTextContentV2],
+        },
+      ],
+      maxTokens,
+    } as inference.models.CohereChatRequestV2;
+  }
+
+  return {
+    apiFormat,
+    messages: [
+      {
+        role: 'USER',
+        content: [{ type: 'TEXT', text } as inference.models.TextContent],
+      },
+    ],
+    maxTokens,
+  } as inference.models.GenericChatRequest;
+}
+
+/**
+ * Models from the catalog that can be served on demand in the region and aren't retired
+ */
+function getCandidateModels(config: SetupConfig): ModelInfo[] {
+  const now = Date.now();
+  return getModelsForRegion(config.region, 'on-demand')
+    .filter(model => !model.deprecatedAt || new Date(model.deprecatedAt).getTime() > now);
+}
+
+/**
+ * Create a control-plane client for the selected profile and region
+ */
+function createGenerativeAiClient(config: Pick<SetupConfig, 'profile' | 'region'>): genai.GenerativeAiClient {
+  const provider = new common.ConfigFileAuthenticationDetailsProvider(
+    undefined,
+    config.profile
+  );
+  const client = new genai.GenerativeAiClient({
+    authenticationDetailsProvider: provider,
+  });
+
+  if (config.region) {
+    client.region = common.Region.fromRegionId(config.region);
   }
 
-  console.log('\n');
+  return client;
+}
 
-  return availableModels;
+/**
+ * Ask the control plane which chat models the compartment can use on demand.
+ * Falls back to the catalog for the region if listing isn't permitted.
+ */
+async function discoverAvailableModels(config: SetupConfig): Promise<ModelInfo[]> {
+  console.log(chalk.gray('\n🔍 Discovering available models in your region...'));
+
+  try {
+    const discovered = await discoverModels(createGenerativeAiClient(config), {
+      compartmentId: config.compartmentId,
+      region: config.region,
+      capability: 'CHAT',
+    });
+
+    const models = discovered
+      .filter(model => model.type !== 'CUSTOM')
+      .map(model => model.catalog || { ...getModelInfo(model.id), name: model.id })
+      .filter(model => model.servingModes.includes('on-demand'));
+
+    console.log('');
+    return [...new Map(models.map(model => [model.id, model])).values()];
+  } catch (error: any) {
+    console.log(chalk.yellow(`Could not list models (${error.message || error}).`));
+    console.log(chalk.gray('Showing catalog models for this region instead.\n'));
+    return getCandidateModels(config);
+  }
 }
 
 /**
@@ -324,7 +317,7 @@ async function discoverAndSelectModel(config: SetupConfig): Promise<string> {
     const vendorName = vendor.charAt(0).toUpperCase() + vendor.slice(1);
     choices.push({ value: `header-${vendor}`, name: chalk.bold.blue(`── ${vendorName} ──`) });
     for (const model of models) {
-      const caps = model.capabilities.join(', ');
+      const caps = getCapabilityLabels(model).join(', ');
       choices.push({
         value: model.id,
         name: `  ${model.name} ${chalk.gray(`[${caps}]`)}`,
@@ -366,17 +359,7 @@ async function selectDedicatedEndpoint(
   console.log(chalk.gray('\nFetching dedicated AI clusters...'));
 
   try {
-    const provider = new common.ConfigFileAuthenticationDetailsProvider(
-      undefined,
-      config.profile
-    );
-    const client = new genai.GenerativeAiClient({
-      authenticationDetailsProvider: provider,
-    });
-
-    if (config.region) {
-      client.region = common.Region.fromRegionId(config.region);
-    }
+    const client = createGenerativeAiClient(config);
 
     // List clusters
     const clustersResponse = await client.listDedicatedAiClusters({
@@ -434,18 +417,7 @@ async function testConfiguration(config: SetupConfig): Promise<boolean> {
   console.log(chalk.gray('\nTesting configuration...'));
 
   try {
-    const provider = new common.ConfigFileAuthenticationDetailsProvider(
-      undefined,
-      config.profile
-    );
-
-    const client = new inference.GenerativeAiInferenceClient({
-      authenticationDetailsProvider: provider,
-    });
-
-    if (config.region) {
-      client.region = common.Region.fromRegionId(config.region);
-    }
+    const client = createInferenceClient(config);
 
     // Test with actual model
     const modelId = config.servingMode === 'on-demand' ? config.modelId! : undefined;
@@ -459,16 +431,8 @@ async function testConfiguration(config: SetupConfig): Promise<boolean> {
       chatDetails: {
         compartmentId: config.compartmentId,
         servingMode,
-        chatRequest: {
-          apiFormat: 'GENERIC',
-          messages: [
-            {
-              role: 'USER',
-              content: [{ type: 'TEXT', text: 'Say "test successful" in 3 words or less.' } as inference.models.TextContent],
-            },
-          ],
-          maxTokens: 10,
-        } as inference.models.GenericChatRequest,
+        // Dedicated endpoints don't reveal their model here, so they get the GENERIC format
+        chatRequest: createProbeRequest(modelId ?? '', 'Say "test successful" in 3 words or less.', 10),
       },
     });
 
@@ -487,6 +451,7 @@ OCI_REGION=${config.region}
 OCI_COMPARTMENT_ID=${config.compartmentId}
 OCI_CONFIG_PROFILE=${config.profile}
 ${config.servingMode === 'dedicated' && config.endpointId ? `OCI_GENAI_ENDPOINT_ID=${config.endpointId}` : '# OCI_GENAI_ENDPOINT_ID='}
+${config.endpoint ? `OCI_GENAI_BASE_URL=${config.endpoint}` : '# OCI_GENAI_BASE_URL='}
 `;
 
   const envPath = '.env.oci-genai';
@@ -494,7 +459,7 @@ ${config.servingMode === 'dedicated' && config.endpointId ? `OCI_GENAI_ENDPOINT_
   console.log(chalk.gray(`Saved: ${envPath}`));
 
   // Get model info for display name
-  const modelInfo = KNOWN_MODELS.find(m => m.id === config.modelId);
+  const modelInfo = config.modelId ? getModelInfo(config.modelId) : undefined;
   const modelName = config.servingMode === 'on-demand'
     ? modelInfo?.name || config.modelId!
     : config.customModelName || 'Custom Endpoint';
@@ -511,6 +476,7 @@ ${config.servingMode === 'dedicated' && config.endpointId ? `OCI_GENAI_ENDPOINT_
         options: {
           region: config.region,
           compartmentId: '${OCI_COMPARTMENT_ID}',
+          ...(config.endpoint ? { endpoint: config.endpoint } : {}),
           ...(config.servingMode === 'dedicated' && config.endpointId
             ? {
                 servingMode: 'dedicated',
@@ -524,7 +490,7 @@ ${config.servingMode === 'dedicated' && config.endpointId ? `OCI_GENAI_ENDPOINT_
             type: 'chat',
             capabilities: {
               streaming: true,
-              toolCalling: true,
+              toolCalling: modelInfo?.supportsTools ?? true,
             },
           },
         },
@@ -556,7 +522,43 @@ ${config.servingMode === 'dedicated' && config.endpointId ? `OCI_GENAI_ENDPOINT_
   console.log(chalk.gray(`Saved: ${opencodeJsonPath}`));
 }
 
-main().catch((error) => {
+/**
+ * `opencode-oci-setup --list-models [--capability CHAT] [--refresh]`
+ *
+ * Print the models available to OCI_COMPARTMENT_ID in OCI_REGION, using the
+ * same discovery cache as the provider.
+ */
+async function listModelsCommand(args: string[]): Promise<void> {
+  const compartmentId = process.env.OCI_COMPARTMENT_ID;
+  const region = process.env.OCI_REGION;
+  if (!compartmentId || !region) {
+    console.error(chalk.red('Set OCI_COMPARTMENT_ID and OCI_REGION to list models.'));
+    process.exit(1);
+  }
+
+  const capabilityIndex = args.indexOf('--capability');
+  const capability = capabilityIndex >= 0
+    ? args[capabilityIndex + 1]?.toUpperCase() as OCIModelCapability
+    : undefined;
+
+  const models = await discoverModels(
+    createGenerativeAiClient({ profile: process.env.OCI_CONFIG_PROFILE || 'DEFAULT', region }),
+    { compartmentId, region, capability, refresh: args.includes('--refresh') }
+  );
+
+  for (const model of models) {
+    const notes = [
+      model.capabilities.join(', '),
+      ...(model.deprecatedAt ? [`deprecated ${model.deprecatedAt.slice(0, 10)}`] : []),
+      ...(model.onDemandRetiredAt ? [`on-demand retires ${model.onDemandRetiredAt.slice(0, 10)}`] : []),
+    ];
+    console.log(`${model.id} ${chalk.gray(`[${notes.join('; ')}]`)}`);
+  }
+}
+
+const args = process.argv.slice(2);
+
+(args.includes('--list-models') ? listModelsCommand(args) : main()).catch((error) => {
   console.error(chalk.red('Setup failed:'), error);
   process.exit(1);
 });
@@ -0,0 +1,321 @@
+/**
+ * OCI GenAI model catalog
+ *
+ * Single source of truth for what each foundation model supports on OCI.
+ * The runtime provider reads capabilities from here to shape requests, and
+ * the setup wizard reads it to decide which models to offer per region.
+ *
+ * Source: https://docs.oracle.com/en-us/iaas/Content/generative-ai/pretrained-models.htm
+ * Last updated: 2026-02-02
+ */
+
+export type ModelVendor = 'cohere' | 'google' | 'xai' | 'meta' | 'openai';
+
+/**
+ * OCI chat request format the model expects
+ */
+export type ModelApiFormat = 'COHERE' | 'COHEREV2' | 'GENERIC';
+
+/**
+ * How reasoning is switched on for a model:
+ * - none: no controllable reasoning on OCI
+ * - reasoning-effort: GENERIC `reasoningEffort` parameter (OpenAI gpt-oss)
+ * - thinking-budget: Cohere `thinking` block with optional budget tokens
+ * - model-variant: chosen by model ID, no request parameter (xAI Grok)
+ */
+export type ReasoningControl = 'none' | 'reasoning-effort' | 'thinking-budget' | 'model-variant';
+
+export type ModelServingMode = 'on-demand' | 'dedicated';
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  /** `'other'` for model IDs whose vendor prefix isn't in the catalog */
+  vendor: ModelVendor | 'other';
+  apiFormat: ModelApiFormat;
+  supportsTools: boolean;
+  supportsVision: boolean;
+  supportsReasoning: boolean;
+  supportsPenalties: boolean;
+  supportsStopSequences: boolean;
+  reasoningControl: ReasoningControl;
+  /** Context window in tokens (unknown for models not in the catalog) */
+  contextWindow?: number;
+  /** Maximum output tokens per request (unknown for models not in the catalog) */
+  maxOutputTokens?: number;
+  /** Region IDs where the model is offered */
+  regions: readonly string[];
+  servingModes: readonly ModelServingMode[];
+  /** ISO date (YYYY-MM-DD) on which OCI deprecates the model */
+  deprecatedAt?: string;
+}
+
+const US_REGIONS = ['us-chicago-1', 'us-ashburn-1', 'us-phoenix-1', 'us-sanjose-1'] as const;
+
+const GOOGLE_REGIONS = [
+  ...US_REGIONS,
+  'eu-frankfurt-1', 'uk-london-1', 'eu-amsterdam-1',
+  'ap-osaka-1', 'ap-tokyo-1', 'ap-sydney-1', 'ap-melbourne-1', 'ap-singapore-1',
+  'ap-hyderabad-1', 'ap-mumbai-1', 'ap-seoul-1',
+  'sa-saopaulo-1',
+  'ca-toronto-1', 'ca-montreal-1',
+] as const;
+
+const ALL_REGIONS = [...GOOGLE_REGIONS, 'sa-santiago-1', 'me-dubai-1', 'me-jeddah-1'] as const;
+
+type VendorDefaults = Omit<ModelInfo, 'id' | 'name' | 'vendor' | 'contextWindow' | 'maxOutputTokens' | 'deprecatedAt'>;
+
+/**
+ * Per-vendor capabilities, used for catalog entries and for model IDs the catalog doesn't know yet
+ */
+const VENDOR_DEFAULTS: Record<ModelVendor | 'other', VendorDefaults> = {
+  cohere: {
+    apiFormat: 'COHERE',
+    supportsTools: true,
+    supportsVision: false,
+    supportsReasoning: false,
+    supportsPenalties: true,
+    supportsStopSequences: true,
+    reasoningControl: 'none',
+    regions: ALL_REGIONS,
+    servingModes: ['on-demand', 'dedicated'],
+  },
+  // OCI does NOT support frequencyPenalty/presencePenalty or reasoningEffort for Gemini
+  google: {
+    apiFormat: 'GENERIC',
+    supportsTools: true,
+    supportsVision: false,
+    supportsReasoning: false,
+    supportsPenalties: false,
+    supportsStopSequences: true,
+    reasoningControl: 'none',
+    regions: GOOGLE_REGIONS,
+    servingModes: ['on-demand', 'dedicated'],
+  },
+  // xAI Grok: no penalties or stop sequences; US regions only
+  xai: {
+    apiFormat: 'GENERIC',
+    supportsTools: true,
+    supportsVision: false,
+    supportsReasoning: false,
+    supportsPenalties: false,
+    supportsStopSequences: false,
+    reasoningControl: 'none',
+    regions: US_REGIONS,
+    servingModes: ['on-demand', 'dedicated'],
+  },
+  meta: {
+    apiFormat: 'GENERIC',
+    supportsTools: true,
+    supportsVision: false,
+    supportsReasoning: false,
+    supportsPenalties: true,
+    supportsStopSequences: true,
+    reasoningControl: 'none',
+    regions: ALL_REGIONS,
+    servingModes: ['on-demand', 'dedicated'],
+  },
+  // OpenAI gpt-oss: listed for US regions only until OCI publishes wider availability
+  openai: {
+    apiFormat: 'GENERIC',
+    supportsTools: true,
+    supportsVision: false,
+    supportsReasoning: true,
+    supportsPenalties: true,
+    supportsStopSequences: true,
+    reasoningControl: 'reasoning-effort',
+    regions: US_REGIONS,
+    servingModes: ['on-demand', 'dedicated'],
+  },
+  other: {
+    apiFormat: 'GENERIC',
+    supportsTools: true,
+    supportsVision: false,
+    supportsReasoning: false,
+    supportsPenalties: true,
+    supportsStopSequences: true,
+    reasoningControl: 'none',
+    regions: ALL_REGIONS,
+    servingModes: ['on-demand', 'dedicated'],
+  },
+};
+
+const DEDICATED_ONLY: readonly ModelServingMode[] = ['dedicated'];
+
+function getVendor(modelId: string): ModelVendor | 'other' {
+  const prefix = modelId.split('.')[0];
+  return prefix in VENDOR_DEFAULTS ? (prefix as ModelVendor) : 'other';
+}
+
+function entry(
+  id: string,
+  name: string,
+  overrides: Partial<VendorDefaults> & Pick<ModelInfo, 'contextWindow' | 'maxOutputTokens' | 'deprecatedAt'>
+): ModelInfo {
+  const vendor = getVendor(id);
+  return { id, name, vendor, ...VENDOR_DEFAULTS[vendor], ...overrides };
+}
+
+export const MODEL_CATALOG: readonly ModelInfo[] = [
+  // Cohere models (Command A uses the V2 API format)
+  entry('cohere.command-a-reasoning-08-2025', 'Cohere Command A Reasoning', {
+    apiFormat: 'COHEREV2', supportsReasoning: true, reasoningControl: 'thinking-budget',
+    contextWindow: 256000, maxOutputTokens: 32000,
+  }),
+  entry('cohere.command-a-vision-07-2025', 'Cohere Command A Vision', {
+    apiFormat: 'COHEREV2', supportsVision: true, contextWindow: 128000, maxOutputTokens: 8000,
+  }),
+  entry('cohere.command-a-03-2025', 'Cohere Command A', {
+    apiFormat: 'COHEREV2', contextWindow: 256000, maxOutputTokens: 8000,
+  }),
+  entry('cohere.command-r-08-2024', 'Cohere Command R', { contextWindow: 128000, maxOutputTokens: 4000 }),
+  entry('cohere.command-r-plus-08-2024', 'Cohere Command R+', { contextWindow: 128000, maxOutputTokens: 4000 }),
+
+  // Google models
+  entry('google.gemini-2.5-pro', 'Google Gemini 2.5 Pro', {
+    supportsVision: true, contextWindow: 1048576, maxOutputTokens: 65536,
+  }),
+  entry('google.gemini-2.5-flash', 'Google Gemini 2.5 Flash', {
+    supportsVision: true, contextWindow: 1048576, maxOutputTokens: 65536,
+  }),
+  entry('google.gemini-2.5-flash-lite', 'Google Gemini 2.5 Flash Lite', {
+    contextWindow: 1048576, maxOutputTokens: 65536,
+  }),
+  entry('google.gemini-2.0-flash-001', 'Google Gemini 2.0 Flash', {
+    contextWindow: 1048576, maxOutputTokens: 8192,
+  }),
+  entry('google.gemini-1.5-pro-002', 'Google Gemini 1.5 Pro', {
+    supportsVision: true, contextWindow: 2097152, maxOutputTokens: 8192, deprecatedAt: '2025-09-24',
+  }),
+
+  // Meta models (Llama 4 and Llama 3.2 11B Vision require dedicated AI clusters)
+  entry('meta.llama-4-maverick-17b-128e-instruct-fp8', 'Meta Llama 4 Maverick 17B', {
+    contextWindow: 512000, maxOutputTokens: 4000, servingModes: DEDICATED_ONLY,
+  }),
+  entry('meta.llama-4-scout-17b-16e-instruct', 'Meta Llama 4 Scout 17B', {
+    contextWindow: 192000, maxOutputTokens: 4000, servingModes: DEDICATED_ONLY,
+  }),
+  entry('meta.llama-3.3-70b-instruct', 'Meta Llama 3.3 70B', { contextWindow: 128000, maxOutputTokens: 4000 }),
+  entry('meta.llama-3.2-90b-vision-instruct', 'Meta Llama 3.2 90B Vision', {
+    supportsVision: true, contextWindow: 128000, maxOutputTokens: 4000,
+  }),
+  entry('meta.llama-3.2-11b-vision-instruct', 'Meta Llama 3.2 11B Vision', {
+    supportsVision: true, contextWindow: 128000, maxOutputTokens: 4000, servingModes: DEDICATED_ONLY,
+  }),
+  entry('meta.llama-3.1-405b-instruct', 'Meta Llama 3.1 405B', { contextWindow: 128000, maxOutputTokens: 4000 }),
+
+  // xAI models: reasoning is selected by model variant, never by request parameter
+  entry('xai.grok-4-1-fast-reasoning', 'xAI Grok 4.1 Fast (Reasoning)', {
+    supportsVision: true, supportsReasoning: true, reasoningControl: 'model-variant',
+    contextWindow: 2000000, maxOutputTokens: 30000,
+  }),
+  entry('xai.grok-4-1-fast-non-reasoning', 'xAI Grok 4.1 Fast', {
+    supportsVision: true, contextWindow: 2000000, maxOutputTokens: 30000,
+  }),
+  entry('xai.grok-4-fast', 'xAI Grok 4 Fast', { contextWindow: 2000000, maxOutputTokens: 30000 }),
+  entry('xai.grok-4', 'xAI Grok 4', { contextWindow: 256000, maxOutputTokens: 16000 }),
+  entry('xai.grok-3-fast', 'xAI Grok 3 Fast', { contextWindow: 131072, maxOutputTokens: 16000 }),
+  entry('xai.grok-3', 'xAI Grok 3', { contextWindow: 131072, maxOutputTokens: 16000 }),
+  entry('xai.grok-3-mini', 'xAI Grok 3 Mini (Reasoning)', {
+    supportsReasoning: true, reasoningControl: 'model-variant', contextWindow: 131072, maxOutputTokens: 16000,
+  }),
+  entry('xai.grok-3-mini-fast', 'xAI Grok 3 Mini Fast (Reasoning)', {
+    supportsReasoning: true, reasoningControl: 'model-variant', contextWindow: 131072, maxOutputTokens: 16000,
+  }),
+  entry('xai.grok-code-fast-1', 'xAI Grok Code Fast', { contextWindow: 256000, maxOutputTokens: 10000 }),
+
+  // OpenAI models
+  entry('openai.gpt-oss-120b', 'OpenAI GPT OSS 120B', { contextWindow: 128000, maxOutputTokens: 32000 }),
+  entry('openai.gpt-oss-20b', 'OpenAI GPT OSS 20B', { contextWindow: 128000, maxOutputTokens: 32000 }),
+];
+
+/**
+ * Infer capabilities for a model ID the catalog doesn't list, from its vendor
+ * and the naming conventions OCI uses for variants
+ */
+function inferModelInfo(modelId: string): ModelInfo {
+  const vendor = getVendor(modelId);
+  const info: ModelInfo = { id: modelId, name: modelId, vendor, ...VENDOR_DEFAULTS[vendor] };
+
+  // Command A models require the V2 API format
+  if (vendor === 'cohere' && modelId.includes('command-a')) {
+    info.apiFormat = 'COHEREV2';
+  }
+
+  if (modelId.includes('vision')) {
+    info.supportsVision = true;
+  }
+
+  // Gemini Flash-Lite has thinking disabled for speed/cost optimization
+  if (modelId.includes('flash-lite')) {
+    return info;
+  }
+
+  // xAI Grok: "-reasoning" variants and grok-3-mini think before responding
+  if (vendor === 'xai') {
+    const isReasoningModel = (modelId.endsWith('-reasoning') || modelId.includes('grok-3-mini')) &&
+      !modelId.includes('-non-reasoning');
+    if (isReasoningModel) {
+      info.supportsReasoning = true;
+      info.reasoningControl = 'model-variant';
+    }
+    return info;
+  }
+
+  if (modelId.includes('reasoning')) {
+    info.supportsReasoning = true;
+    info.reasoningControl = vendor === 'cohere' ? 'thinking-budget' : 'reasoning-effort';
+  }
+
+  return info;
+}
+
+/**
+ * Look up a model in the catalog, falling back to the longest catalog ID the
+ * model ID extends (e.g. a new version suffix) and then to vendor defaults
+ */
+export function getModelInfo(modelId: string): ModelInfo {
+  const exact = MODEL_CATALOG.find(model => model.id === modelId);
+  if (exact) return exact;
+
+  const base = MODEL_CATALOG
+    .filter(model => modelId.startsWith(`${model.id}-`))
+    .sort((a, b) => b.id.length - a.id.length)[0];
+  if (base) return { ...base, id: modelId, name: modelId };
+
+  return inferModelInfo(modelId);
+}
+
+/**
+ * Models offered in a region, optionally restricted to a serving mode
+ */
+export function getModelsForRegion(regionId: string, servingMode?: ModelServingMode): ModelInfo[] {
+  return MODEL_CATALOG.filter(model =>
+    model.regions.includes(regionId) && (!servingMode || model.servingModes.includes(servingMode))
+  );
+}
+
+/**
+ * Vendors with at least one catalog model in a region
+ */
+export function getVendorsInRegion(regionId: string): ModelVendor[] {
+  const vendors = new Set<ModelVendor>();
+  for (const model of MODEL_CATALOG) {
+    if (model.vendor !== 'other' && model.regions.includes(regionId)) {
+      vendors.add(model.vendor);
+    }
+  }
+  return [...vendors];
+}
+
+/**
+ * Short capability labels for display, e.g. ['chat', 'tools', 'vision']
+ */
+export function getCapabilityLabels(model: ModelInfo): string[] {
+  return [
+    'chat',
+    ...(model.supportsTools ? ['tools'] : []),
+    ...(model.supportsVision ? ['vision'] : []),
+    ...(model.supportsReasoning ? ['reasoning'] : []),
+  ];
+}
@@ -1,11 +1,12 @@
 /**
- * OCI GenAI region availability data
+ * OCI GenAI region data
  *
- * xAI models (Grok) are only available in US regions.
- * Other providers (Cohere, Google, Meta) have broader availability.
+ * Which vendors a region serves is derived from the model catalog
+ * (see ./models.ts), so region and model availability can't disagree.
  */
+import { MODEL_CATALOG, getModelInfo, getVendorsInRegion, type ModelVendor } from './models.js';
 
-export type Provider = 'cohere' | 'google' | 'xai' | 'meta';
+export type Provider = ModelVendor;
 
 export interface RegionInfo {
   name: string;
@@ -13,119 +14,55 @@ export interface RegionInfo {
 }
 
 /**
- * Region availability map
+ * Regions with OCI Generative AI
  * Source: https://docs.oracle.com/en-us/iaas/Content/generative-ai/overview.htm
  */
-export const REGIONS: Record<string, RegionInfo> = {
-  // US Regions (full xAI support)
-  'us-chicago-1': {
-    name: 'US Midwest (Chicago)',
-    providers: ['cohere', 'google', 'xai', 'meta'],
-  },
-  'us-ashburn-1': {
-    name: 'US East (Ashburn)',
-    providers: ['cohere', 'google', 'xai', 'meta'],
-  },
-  'us-phoenix-1': {
-    name: 'US West (Phoenix)',
-    providers: ['cohere', 'google', 'xai', 'meta'],
-  },
-  'us-sanjose-1': {
-    name: 'US West (San Jose)',
-    providers: ['cohere', 'google', 'xai', 'meta'],
-  },
+const REGION_NAMES: Record<string, string> = {
+  // US Regions (xAI and OpenAI available)
+  'us-chicago-1': 'US Midwest (Chicago)',
+  'us-ashburn-1': 'US East (Ashburn)',
+  'us-phoenix-1': 'US West (Phoenix)',
+  'us-sanjose-1': 'US West (San Jose)',
 
   // EU Regions
-  'eu-frankfurt-1': {
-    name: 'Germany Central (Frankfurt)',
-    providers: ['cohere', 'google', 'meta'],
-  },
-  'uk-london-1': {
-    name: 'UK South (London)',
-    providers: ['cohere', 'google', 'meta'],
-  },
-  'eu-amsterdam-1': {
-    name: 'Netherlands Northwest (Amsterdam)',
-    providers: ['cohere', 'google', 'meta'],
-  },
+  'eu-frankfurt-1': 'Germany Central (Frankfurt)',
+  'uk-london-1': 'UK South (London)',
+  'eu-amsterdam-1': 'Netherlands Northwest (Amsterdam)',
 
   // Asia Pacific Regions
-  'ap-osaka-1': {
-    name: 'Japan Central (Osaka)',
-    providers: ['cohere', 'google', 'meta'],
-  },
-  'ap-tokyo-1': {
-    name: 'Japan East (Tokyo)',
-    providers: ['cohere', 'google', 'meta'],
-  },
-  'ap-sydney-1': {
-    name: 'Australia East (Sydney)',
-    providers: ['cohere', 'google', 'meta'],
-  },
-  'ap-melbourne-1': {
-    name: 'Australia Southeast (Melbourne)',
-    providers: ['cohere', 'google', 'meta'],
-  },
-  'ap-singapore-1': {
-    name: 'Singapore',
-    providers: ['cohere', 'google', 'meta'],
-  },
-  'ap-hyderabad-1': {
-    name: 'India South (Hyderabad)',
-    providers: ['cohere', 'google', 'meta'],
-  },
-  'ap-mumbai-1': {
-    name: 'India West (Mumbai)',
-    providers: ['cohere', 'google', 'meta'],
-  },
-  'ap-seoul-1': {
-    name: 'South Korea Central (Seoul)',
-    providers: ['cohere', 'google', 'meta'],
-  },
+  'ap-osaka-1': 'Japan Central (Osaka)',
+  'ap-tokyo-1': 'Japan East (Tokyo)',
+  'ap-sydney-1': 'Australia East (Sydney)',
+  'ap-melbourne-1': 'Australia Southeast (Melbourne)',
+  'ap-singapore-1': 'Singapore',
+  'ap-hyderabad-1': 'India South (Hyderabad)',
+  'ap-mumbai-1': 'India West (Mumbai)',
+  'ap-seoul-1': 'South Korea Central (Seoul)',
 
   // South America
-  'sa-saopaulo-1': {
-    name: 'Brazil East (Sao Paulo)',
-    providers: ['cohere', 'google', 'meta'],
-  },
-  'sa-santiago-1': {
-    name: 'Chile (Santiago)',
-    providers: ['cohere', 'meta'],
-  },
+  'sa-saopaulo-1': 'Brazil East (Sao Paulo)',
+  'sa-santiago-1': 'Chile (Santiago)',
 
   // Middle East
-  'me-dubai-1': {
-    name: 'UAE East (Dubai)',
-    providers: ['cohere', 'meta'],
-  },
-  'me-jeddah-1': {
-    name: 'Saudi Arabia West (Jeddah)',
-    providers: ['cohere', 'meta'],
-  },
+  'me-dubai-1': 'UAE East (Dubai)',
+  'me-jeddah-1': 'Saudi Arabia West (Jeddah)',
 
   // Canada
-  'ca-toronto-1': {
-    name: 'Canada Southeast (Toronto)',
-    providers: ['cohere', 'google', 'meta'],
-  },
-  'ca-montreal-1': {
-    name: 'Canada Southeast (Montreal)',
-    providers: ['cohere', 'google', 'meta'],
-  },
+  'ca-toronto-1': 'Canada Southeast (Toronto)',
+  'ca-montreal-1': 'Canada Southeast (Montreal)',
 };
 
-/**
- * Models that require dedicated AI clusters (not available on-demand)
- * Source: https://docs.oracle.com/en-us/iaas/Content/generative-ai/pretrained-models.htm
- * Last updated: 2026-02-02
- */
-export const DEDICATED_ONLY_MODELS = [
-  // Meta Llama 4 models (dedicated only)
-  'meta.llama-4-maverick',
-  'meta.llama-4-scout',
-  // Meta Llama 3.2 11B Vision (dedicated only)
-  'meta.llama-3.2-11b-vision',
-];
+const VENDOR_NAMES: Record<Provider, string> = {
+  cohere: 'Cohere',
+  google: 'Google',
+  xai: 'xAI',
+  meta: 'Meta',
+  openai: 'OpenAI',
+};
+
+export const REGIONS: Record<string, RegionInfo> = Object.fromEntries(
+  Object.entries(REGION_NAMES).map(([regionId, name]) => [regionId, { name, providers: getVendorsInRegion(regionId) }])
+);
 
 /**
  * Get regions that support a specific provider
@@ -151,9 +88,7 @@ export function formatRegionChoice(regionId: string): string {
   const info = REGIONS[regionId];
   if (!info) return regionId;
 
-  const providerHints = info.providers.includes('xai')
-    ? `[xAI, Google, Cohere, Meta]`
-    : `[${info.providers.map(p => p.charAt(0).toUpperCase() + p.slice(1)).join(', ')}]`;
+  const providerHints = `[${info.providers.map(p => VENDOR_NAMES[p]).join(', ')}]`;
 
   return `${regionId} - ${info.name} ${providerHints}`;
 }
@@ -173,28 +108,23 @@ export function getAllRegionIds(): string[] {
  * Check if a model requires a dedicated AI cluster
  */
 export function isDedicatedOnly(modelId: string): boolean {
-  return DEDICATED_ONLY_MODELS.some(prefix => modelId.startsWith(prefix));
+  return !getModelInfo(modelId).servingModes.includes('on-demand');
 }
 
 /**
  * Get user-friendly model name for error messages
  */
 export function getModelDisplayName(modelId: string): string {
+  const known = MODEL_CATALOG.find(model => model.id === modelId);
+  if (known) return known.name;
+
   const parts = modelId.split('.');
   if (parts.length < 2) return modelId;
 
   const provider = parts[0];
   const model = parts.slice(1).join('.');
 
-  // Format provider name
-  const providerNames: Record<string, string> = {
-    'meta': 'Meta',
-    'cohere': 'Cohere',
-    'google': 'Google',
-    'xai': 'xAI',
-  };
-
-  const providerName = providerNames[provider] || provider;
+  const providerName = VENDOR_NAMES[provider as Provider] || provider;
 
   // Format model name
   const modelName = model
@@ -0,0 +1,139 @@
+/**
+ * Model discovery tests with a stubbed control-plane client and a temporary cache directory
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { discoverModels } from './discovery.js';
+
+function summary(displayName: string, capabilities: string[], overrides: Record<string, unknown> = {}) {
+  return {
+    id: `ocid1.generativeaimodel.oc1.us-chicago-1.${displayName.replace(/\W/g, '')}`,
+    compartmentId: 'ocid1.compartment.oc1..test',
+    displayName,
+    vendor: displayName.split('.')[0],
+    version: '1.0',
+    capabilities,
+    lifecycleState: 'ACTIVE',
+    type: 'BASE',
+    timeCreated: new Date('2025-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Model Discovery', () => {
+  let cacheDir: string;
+  let client: { listModels: ReturnType<typeof vi.fn> };
+
+  const options = () => ({
+    compartmentId: 'ocid1.compartment.oc1..test',
+    region: 'us-chicago-1',
+    cache: { directory: cacheDir },
+  });
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oci-models-'));
+    client = {
+      listModels: vi.fn()
+        .mockResolvedValueOnce({
+          modelCollection: {
+            items: [
+              summary('cohere.command-a-03-2025', ['CHAT']),
+              summary('cohere.embed-english-v3.0', ['TEXT_EMBEDDINGS']),
+            ],
+          },
+          opcNextPage: 'page-2',
+        })
+        .mockResolvedValueOnce({
+          modelCollection: {
+            items: [
+              summary('cohere.rerank-v3.5', ['TEXT_RERANK']),
+              summary('meta.llama-3.1-70b-instruct', ['CHAT'], {
+                timeDeprecated: new Date('2025-03-01T00:00:00Z'),
+                timeOnDemandRetired: new Date('2025-06-01T00:00:00Z'),
+              }),
+              summary('google.gemini-3.0-pro', ['CHAT'], {
+                timeDeprecated: '2099-01-01T00:00:00.000Z',
+              }),
+            ],
+          },
+        }),
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should follow pagination and filter by capability', async () => {
+    const chat = await discoverModels(client as any, { ...options(), capability: 'CHAT' });
+
+    expect(client.listModels).toHaveBeenCalledTimes(2);
+    expect(client.listModels).toHaveBeenLastCalledWith({ compartmentId: 'ocid1.compartment.oc1..test', page: 'page-2' });
+    expect(chat.map(model => model.id)).toEqual(['cohere.command-a-03-2025', 'google.gemini-3.0-pro']);
+
+    const search = await discoverModels(client as any, { ...options(), capability: ['TEXT_EMBEDDINGS', 'TEXT_RERANK'] });
+    expect(search.map(model => model.id)).toEqual(['cohere.embed-english-v3.0', 'cohere.rerank-v3.5']);
+  });
+
+  it('should report lifecycle and deprecation info', async () => {
+    const models = await discoverModels(client as any, { ...options(), includeRetired: true });
+    const retired = models.find(model => model.id === 'meta.llama-3.1-70b-instruct');
+
+    expect(retired).toMatchObject({
+      ocid: expect.stringMatching(/^ocid1\.generativeaimodel\./),
+      lifecycleState: 'ACTIVE',
+      deprecatedAt: '2025-03-01T00:00:00.000Z',
+      onDemandRetiredAt: '2025-06-01T00:00:00.000Z',
+    });
+    expect(models.find(model => model.id === 'google.gemini-3.0-pro')?.deprecatedAt).toBe('2099-01-01T00:00:00.000Z');
+  });
+
+  it('should hide models retired for on-demand use unless asked', async () => {
+    const models = await discoverModels(client as any, options());
+
+    expect(models.map(model => model.id)).not.toContain('meta.llama-3.1-70b-instruct');
+  });
+
+  it('should attach catalog entries for known models', async () => {
+    const models = await discoverModels(client as any, { ...options(), vendor: 'cohere', capability: 'CHAT' });
+
+    expect(models).toHaveLength(1);
+    expect(models[0].catalog).toMatchObject({ apiFormat: 'COHEREV2', contextWindow: 256000 });
+  });
+
+  it('should serve repeated lookups from the disk cache until the TTL expires', async () => {
+    await discoverModels(client as any, options());
+    expect(fs.readdirSync(cacheDir)).toEqual([expect.stringMatching(/^models-us-chicago-1-[0-9a-f]{16}\.json$/)]);
+
+    const cached = await discoverModels(client as any, { ...options(), capability: 'TEXT_RERANK' });
+    expect(cached.map(model => model.id)).toEqual(['cohere.rerank-v3.5']);
+    expect(client.listModels).toHaveBeenCalledTimes(2);
+
+    client.listModels.mockResolvedValue({ modelCollection: { items: [] } });
+    const expired = await discoverModels(client as any, { ...options(), cache: { directory: cacheDir, ttlMs: 0 } });
+    expect(expired).toEqual([]);
+    expect(client.listModels).toHaveBeenCalledTimes(3);
+  });
+
+  it('should bypass the cache on refresh or when disabled', async () => {
+    await discoverModels(client as any, options());
+    client.listModels.mockResolvedValue({ modelCollection: { items: [] } });
+
+    expect(await discoverModels(client as any, { ...options(), refresh: true })).toEqual([]);
+    expect(await discoverModels(client as any, { ...options(), cache: false })).toEqual([]);
+    expect(client.listModels).toHaveBeenCalledTimes(4);
+  });
+
+  it('should ignore a corrupt cache file', async () => {
+    await discoverModels(client as any, options());
+    const [file] = fs.readdirSync(cacheDir);
+    fs.writeFileSync(path.join(cacheDir, file), '{not json');
+    client.listModels.mockResolvedValue({ modelCollection: { items: [summary('xai.grok-4', ['CHAT'])] } });
+
+    const models = await discoverModels(client as any, options());
+
+    expect(models.map(model => model.id)).toEqual(['xai.grok-4']);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Model discovery via the OCI Generative AI control plane
+ *
+ * Lists the foundation and custom models a compartment can use in a region,
+ * instead of probing a hard-coded list with paid chat requests. Results are
+ * cached on disk so repeated lookups (wizard runs, provider startup) are free:
+ *
+ *   const models = await discoverModels(client, {
+ *     compartmentId: 'ocid1.compartment.oc1..example',
+ *     region: 'us-chicago-1',
+ *     capability: 'CHAT',
+ *   });
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as genai from 'oci-generativeai';
+import { MODEL_CATALOG, type ModelInfo } from './data/models.js';
+
+export type OCIModelCapability = 'CHAT' | 'TEXT_EMBEDDINGS' | 'TEXT_RERANK';
+
+const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface OCIModelCacheSettings {
+  /** Cache directory (default: `$XDG_CACHE_HOME/opencode-oci-provider` or `~/.cache/opencode-oci-provider`) */
+  directory?: string;
+  /** How long a cached model list stays fresh (default: 24 hours) */
+  ttlMs?: number;
+}
+
+export interface OCIModelDiscoveryOptions {
+  /** Only return models with at least one of these capabilities */
+  capability?: OCIModelCapability | OCIModelCapability[];
+  /** Only return models from this vendor, e.g. 'cohere' */
+  vendor?: string;
+  /** Include models that are not ACTIVE or are retired for on-demand use (default: false) */
+  includeRetired?: boolean;
+  /** Ignore a fresh cache entry and fetch from OCI */
+  refresh?: boolean;
+}
+
+export interface DiscoverModelsOptions extends OCIModelDiscoveryOptions {
+  compartmentId: string;
+  /** Region the client talks to; part of the cache key */
+  region: string;
+  /** Disk cache settings, or false to always fetch */
+  cache?: OCIModelCacheSettings | false;
+}
+
+export interface OCIDiscoveredModel {
+  /** Model name to pass to `languageModel()` etc., e.g. 'cohere.command-a-03-2025' */
+  id: string;
+  /** Model OCID */
+  ocid: string;
+  vendor?: string;
+  version?: string;
+  /** OCI capabilities, e.g. ['CHAT'] or ['TEXT_EMBEDDINGS'] */
+  capabilities: string[];
+  /** BASE for pretrained models, CUSTOM for fine-tuned ones */
+  type: string;
+  lifecycleState: string;
+  lifecycleDetails?: string;
+  /** Base model OCID of a fine-tuned model */
+  baseModelId?: string;
+  isLongTermSupported?: boolean;
+  /** ISO timestamps of the model's deprecation and retirement, when announced */
+  deprecatedAt?: string;
+  onDemandRetiredAt?: string;
+  dedicatedRetiredAt?: string;
+  /** Catalog entry for models the provider knows, with limits and request capabilities */
+  catalog?: ModelInfo;
+}
+
+interface ModelCacheFile {
+  fetchedAt: string;
+  models: Omit<OCIDiscoveredModel, 'catalog'>[];
+}
+
+type ListModelsClient = Pick<genai.GenerativeAiClient, 'listModels'>;
+
+function toIsoString(value: Date | string | undefined): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+function toDiscoveredModel(summary: genai.models.ModelSummary): Omit<OCIDiscoveredModel, 'catalog'> {
+  return {
+    id: summary.displayName || summary.id,
+    ocid: summary.id,
+    vendor: summary.vendor,
+    version: summary.version,
+    capabilities: [...(summary.capabilities || [])],
+    type: summary.type,
+    lifecycleState: summary.lifecycleState,
+    lifecycleDetails: summary.lifecycleDetails,
+    baseModelId: summary.baseModelId,
+    isLongTermSupported: summary.isLongTermSupported,
+    deprecatedAt: toIsoString(summary.timeDeprecated),
+    onDemandRetiredAt: toIsoString(summary.timeOnDemandRetired),
+    dedicatedRetiredAt: toIsoString(summary.timeDedicatedRetired),
+  };
+}
+
+function getDefaultCacheDirectory(): string {
+  const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(base, 'opencode-oci-provider');
+}
+
+function getCachePath(cache: OCIModelCacheSettings, region: string, compartmentId: string): string {
+  const compartmentHash = crypto.createHash('sha256').update(compartmentId).digest('hex').slice(0, 16);
+  return path.join(cache.directory || getDefaultCacheDirectory(), `models-${region}-${compartmentHash}.json`);
+}
+
+function readCache(cachePath: string, ttlMs: number): ModelCacheFile | undefined {
+  try {
+    const cached = JSON.parse(fs.readFileSync(cachePath, 'utf-8')) as ModelCacheFile;
+    const ageMs = Date.now() - new Date(cached.fetchedAt).getTime();
+    return ageMs >= 0 && ageMs < ttlMs && Array.isArray(cached.models) ? cached : undefined;
+  } catch {
+    // Missing or unreadable cache: fetch from OCI
+    return undefined;
+  }
+}
+
+function writeCache(cachePath: string, models: ModelCacheFile['models']): void {
+  try {
+    fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+    fs.writeFileSync(cachePath, JSON.stringify({ fetchedAt: new Date().toISOString(), models }, null, 2) + '\n');
+  } catch (error) {
+    // A read-only home directory must not break discovery
+    if (process.env.OCI_DEBUG) {
+      console.error('[OCI Debug] Could not write model cache:', cachePath, error);
+    }
+  }
+}
+
+async function fetchModels(client: ListModelsClient, compartmentId: string): Promise<ModelCacheFile['models']> {
+  const models: ModelCacheFile['models'] = [];
+  let page: string | undefined;
+  do {
+    const response = await client.listModels({ compartmentId, page });
+    for (const summary of response.modelCollection?.items || []) {
+      models.push(toDiscoveredModel(summary));
+    }
+    page = response.opcNextPage || undefined;
+  } while (page);
+  return models;
+}
+
+function isAvailable(model: Omit<OCIDiscoveredModel, 'catalog'>): boolean {
+  if (model.lifecycleState !== 'ACTIVE') return false;
+  return !model.onDemandRetiredAt || new Date(model.onDemandRetiredAt).getTime() > Date.now();
+}
+
+/**
+ * List the models a compartment can use in a region, filtered by capability,
+ * vendor and lifecycle. The full list is cached per region and compartment;
+ * filters are applied to the cached list.
+ */
+export async function discoverModels(
+  client: ListModelsClient,
+  options: DiscoverModelsOptions,
+): Promise<OCIDiscoveredModel[]> {
+  const cache = options.cache === false ? undefined : options.cache || {};
+  const cachePath = cache && getCachePath(cache, options.region, options.compartmentId);
+
+  let models = cachePath && !options.refresh
+    ? readCache(cachePath, cache.ttlMs ?? DEFAULT_CACHE_TTL_MS)?.models
+    : undefined;
+
+  if (!models) {
+    models = await fetchModels(client, options.compartmentId);
+    if (cachePath) {
+      writeCache(cachePath, models);
+    }
+  } else if (process.env.OCI_DEBUG) {
+    console.error('[OCI Debug] Using cached model list:', cachePath);
+  }
+
+  const capabilities = options.capability
+    ? new Set<string>([options.capability].flat())
+    : undefined;
+
+  return models
+    .filter(model => options.includeRetired || isAvailable(model))
+    .filter(model => !capabilities || model.capabilities.some(capability => capabilities.has(capability)))
+    .filter(model => !options.vendor || model.vendor === options.vendor)
+    .map(model => {
+      const catalog = MODEL_CATALOG.find(entry => entry.id === model.id);
+      return catalog ? { ...model, catalog } : model;
+    });
+}
@@ -4,7 +4,9 @@
  * This package provides a LanguageModelV2 implementation for OpenCode,
  * with SWE-optimized defaults and tool calling support (including MCP).
  */
+import { APICallError, JSONParseError } from '@ai-sdk/provider';
 import type {
+  EmbeddingModelV2,
   LanguageModelV2,
   LanguageModelV2CallOptions,
   LanguageModelV2FinishReason,
@@ -19,147 +21,292 @@ import type {
   ProviderV2,
   JSONSchema7,
 } from '@ai-sdk/provider';
+import { AsyncLocalStorage } from 'async_hooks';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as oci from 'oci-generativeaiinference';
 import * as common from 'oci-common';
-import { isDedicatedOnly, getModelDisplayName } from './data/regions.js';
+import * as genai from 'oci-generativeai';
+import { REGIONS, isDedicatedOnly, getModelDisplayName } from './data/regions.js';
+import { MODEL_CATALOG, getModelInfo, type ModelApiFormat, type ModelInfo, type ReasoningControl } from './data/models.js';
+import {
+  discoverModels,
+  type OCIDiscoveredModel,
+  type OCIModelCacheSettings,
+  type OCIModelDiscoveryOptions,
+} from './discovery.js';
+import { SSEDecoderStream } from './sse.js';
 
 export type OCIAuthProviderType =
   | 'config-file'
-  | 'session-token';
+  | 'session-token'
+  | 'env'
+  | 'instance-principal'
+  | 'resource-principal'
+  | 'oke-workload-identity';
+
+/**
+ * Auth types whose providers are built asynchronously on the first request
+ * (OCI compute, Functions and OKE workloads).
+ */
+const PRINCIPAL_AUTH_PROVIDER_TYPES = ['instance-principal', 'resource-principal', 'oke-workload-identity'] as const;
+
+type OCIPrincipalAuthProviderType = typeof PRINCIPAL_AUTH_PROVIDER_TYPES[number];
+
+const AUTH_PROVIDER_TYPES: readonly OCIAuthProviderType[] = [
+  'config-file',
+  'session-token',
+  'env',
+  ...PRINCIPAL_AUTH_PROVIDER_TYPES,
+];
 
 export interface OCIProviderSettings {
   compartmentId?: string;
   region?: string;
+  /**
+   * Regions to spread on-demand requests across. Each model only goes to the
+   * regions offering its vendor, and a throttled or failing region hands the
+   * request to the next one. The first entry is the default `region`.
+   */
+  regions?: string[];
+  /** How `regions` are ordered for each request (default 'primary-fallback') */
+  regionStrategy?: OCIRegionStrategy;
   configProfile?: string;
   servingMode?: 'on-demand' | 'dedicated';
   endpointId?: string;
+  /**
+   * Model hosted on the dedicated endpoint, e.g. 'cohere.command-a-03-2025'.
+   * Picks the request format and capabilities; when omitted the endpoint is
+   * looked up through the control-plane API on first use.
+   */
+  baseModelId?: string;
   authProvider?: OCIAuthProviderType | common.AuthenticationDetailsProvider;
+  /**
+   * Base URL replacing the regional inference endpoint, e.g. a private endpoint,
+   * reverse proxy or local mock server. Defaults to OCI_GENAI_BASE_URL.
+   */
+  endpoint?: string;
+  /** Alias for `endpoint` */
+  baseURL?: string;
+  /** Retry policy for throttled and transient failures, or false to disable retries */
+  retry?: OCIRetrySettings | false;
+  /**
+   * Streaming: how long to wait for the first byte of the response, in milliseconds.
+   * Unset or 0 waits indefinitely; all three timeouts can be overridden per call
+   * via providerOptions['oci-genai'].
+   */
+  firstByteTimeoutMs?: number;
+  /** Streaming: longest allowed gap between chunks once the response started; heartbeats count as chunks */
+  idleTimeoutMs?: number;
+  /** Streaming: upper bound for the whole call, from sending the request to the last chunk */
+  totalTimeoutMs?: number;
+  /** Record chat exchanges to a cassette file or replay them from it */
+  recording?: OCIRecordingSettings;
+  /** On-disk cache for `listModels()` results, or false to always query OCI */
+  modelCache?: OCIModelCacheSettings | false;
+  /**
+   * Preset overrides keyed by vendor prefix (e.g. 'xai') or exact model ID.
+   * Model ID entries win over vendor entries; caller-supplied call options win over both.
+   */
+  presets?: Record<string, OCIModelPreset>;
+  /**
+   * Extra named sampling profiles for providerOptions['oci-genai'].preset,
+   * alongside the built-in 'swe', 'deterministic' and 'creative'
+   */
+  presetProfiles?: Record<string, OCISamplingPreset>;
+  /**
+   * Dedicated endpoints addressable as `dedicated/<alias>` model IDs, by endpoint
+   * OCID or with the hosted model. Any endpoint can also be used directly as
+   * `endpoint:<endpoint OCID>`, next to on-demand models of the same provider.
+   */
+  endpoints?: Record<string, string | OCIDedicatedEndpoint>;
+}
+
+/**
+ * A dedicated endpoint registered under an alias
+ */
+export interface OCIDedicatedEndpoint {
+  endpointId: string;
+  /** Model hosted on the endpoint; looked up through the control plane when omitted */
+  baseModelId?: string;
+}
+
+const ENDPOINT_MODEL_PREFIX = 'endpoint:';
+const DEDICATED_MODEL_PREFIX = 'dedicated/';
+
+/**
+ * Sampling defaults used when a call doesn't set the value itself
+ */
+export interface OCISamplingPreset {
+  temperature?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+}
+
+/**
+ * Preset override for a vendor or model: sampling defaults plus the capability
+ * flags that decide which parameters are sent
+ */
+export interface OCIModelPreset extends OCISamplingPreset {
+  supportsTools?: boolean;
+  supportsPenalties?: boolean;
+  supportsStopSequences?: boolean;
+  supportsReasoning?: boolean;
+  reasoningControl?: ReasoningControl;
 }
 
 /**
- * Model-specific SWE presets for optimal coding performance
+ * Cassette recording for regression tests. `record` calls OCI and saves each
+ * exchange, `replay` answers from the cassette without calling OCI, and
+ * `passthrough` disables the cassette.
  */
-interface SWEPreset {
+export interface OCIRecordingSettings {
+  mode: 'record' | 'replay' | 'passthrough';
+  /** Path of the cassette JSON file */
+  cassette: string;
+}
+
+const RECORDING_MODES: readonly OCIRecordingSettings['mode'][] = ['record', 'replay', 'passthrough'];
+
+/**
+ * `primary-fallback` tries regions in the configured order, `round-robin`
+ * rotates the first region per request, and `lowest-latency` prefers the
+ * region with the fastest recent responses.
+ */
+export type OCIRegionStrategy = 'primary-fallback' | 'round-robin' | 'lowest-latency';
+
+const REGION_STRATEGIES: readonly OCIRegionStrategy[] = ['primary-fallback', 'round-robin', 'lowest-latency'];
+
+/**
+ * Retry policy for OCI GenAI requests. Delays grow exponentially from
+ * baseDelayMs; a Retry-After header from the service takes precedence.
+ */
+export interface OCIRetrySettings {
+  /** Total attempts including the first request (default 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default 1000) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay in milliseconds (default 30000) */
+  maxDelayMs?: number;
+  /** Random spread applied to each delay, as a fraction between 0 and 1 (default 0.2) */
+  jitter?: number;
+  /** HTTP status codes that trigger a retry (default 429, 500, 502, 503, 504) */
+  retryableStatusCodes?: number[];
+  /** OCI service error codes that trigger a retry regardless of status code */
+  retryableServiceCodes?: string[];
+}
+
+const STREAM_TIMEOUT_SETTINGS = ['firstByteTimeoutMs', 'idleTimeoutMs', 'totalTimeoutMs'] as const;
+
+type StreamTimeouts = Pick<OCIProviderSettings, typeof STREAM_TIMEOUT_SETTINGS[number]>;
+
+/** Longest delay setTimeout honors; Node fires larger ones (and Infinity) after 1ms */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Check a stream timeout value, from settings or providerOptions.
+ */
+function isValidTimeoutMs(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_TIMEOUT_MS;
+}
+
+/** Which stream timeout fired */
+export type OCIStreamTimeoutKind = 'first-byte' | 'idle' | 'total';
+
+const DEFAULT_RETRY_SETTINGS: Required<OCIRetrySettings> = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.2,
+  retryableStatusCodes: [429, 500, 502, 503, 504],
+  retryableServiceCodes: ['TooManyRequests', 'InternalServerError', 'ServiceUnavailable'],
+};
+
+/**
+ * Model-specific SWE presets for optimal coding performance.
+ * Sampling defaults are tuned per vendor; capability flags come from the model catalog.
+ */
+interface SWEPreset extends Pick<
+  ModelInfo,
+  'supportsTools' | 'supportsPenalties' | 'supportsStopSequences' | 'supportsReasoning' | 'reasoningControl'
+> {
   temperature: number;
   topP: number;
   frequencyPenalty: number;
   presencePenalty: number;
-  supportsTools: boolean;
-  supportsPenalties: boolean;
-  supportsStopSequences?: boolean;  // Default true if not specified
-  supportsReasoning?: boolean;      // Default false if not specified
-}
-
-const SWE_PRESETS: Record<string, SWEPreset> = {
-  // Cohere models - good for instruction following, supports tools
-  // Note: Only cohere.command-a-reasoning-* models support thinking (handled in getSWEPreset)
-  'cohere': {
-    temperature: 0.2,
-    topP: 0.9,
-    frequencyPenalty: 0,
-    presencePenalty: 0,
-    supportsTools: true,
-    supportsPenalties: true,
-    supportsReasoning: false,  // Only reasoning models support thinking (see getSWEPreset)
-  },
-  // Google Gemini - excellent for code (OCI does NOT support frequencyPenalty/presencePenalty)
-  // Only Gemini Flash with explicit reasoningEffort config supports reasoning parameter
-  'google': {
-    temperature: 0.1,
-    topP: 0.95,
-    frequencyPenalty: 0,
-    presencePenalty: 0,
-    supportsTools: true,
-    supportsPenalties: false,
-    supportsReasoning: false,  // Only Flash variants with explicit config support reasoningEffort
-  },
-  // xAI Grok - supports tools, but NOT frequencyPenalty/presencePenalty or stop sequences
-  // Reasoning is controlled by model variant selection (e.g., grok-4-1-fast-reasoning vs grok-4-1-fast-non-reasoning)
-  // Models like grok-3-mini "think before responding" and return reasoning content
-  'xai': {
-    temperature: 0.1,
-    topP: 0.9,
-    frequencyPenalty: 0,
-    presencePenalty: 0,
-    supportsTools: true,
-    supportsPenalties: false,
-    supportsStopSequences: false,  // Per OCI docs, stop sequences not listed as supported
-    supportsReasoning: false,      // Base value; overridden in getSWEPreset for reasoning model variants
-  },
-  // Meta Llama - balanced for code, no reasoning support
-  'meta': {
-    temperature: 0.2,
-    topP: 0.9,
-    frequencyPenalty: 0,
-    presencePenalty: 0,
-    supportsTools: true,
-    supportsPenalties: true,
-    supportsReasoning: false,
-  },
-  // OpenAI gpt-oss models - supports tools, reasoning, and penalties
-  'openai': {
-    temperature: 0.1,
-    topP: 0.9,
-    frequencyPenalty: 0,
-    presencePenalty: 0,
-    supportsTools: true,
-    supportsPenalties: true,
-    supportsReasoning: true,  // Has reasoning capabilities
-  },
-  // Default fallback
-  'default': {
-    temperature: 0.2,
-    topP: 0.9,
-    frequencyPenalty: 0,
-    presencePenalty: 0,
-    supportsTools: true,
-    supportsPenalties: true,
-    supportsReasoning: false,
-  },
-};
-
-function getModelProvider(modelId: string): string {
-  const prefix = modelId.split('.')[0];
-  return prefix || 'default';
 }
 
-function getSWEPreset(modelId: string): SWEPreset {
-  const provider = getModelProvider(modelId);
-  const basePreset = SWE_PRESETS[provider] || SWE_PRESETS['default'];
-
-  // Gemini Flash-Lite has thinking disabled for speed/cost optimization
-  if (modelId.includes('flash-lite')) {
-    return { ...basePreset, supportsReasoning: false };
-  }
+type SamplingDefaults = Pick<SWEPreset, 'temperature' | 'topP' | 'frequencyPenalty' | 'presencePenalty'>;
+
+const SWE_SAMPLING: Record<ModelInfo['vendor'], SamplingDefaults> = {
+  // Cohere models - good for instruction following
+  cohere: { temperature: 0.2, topP: 0.9, frequencyPenalty: 0, presencePenalty: 0 },
+  // Google Gemini - excellent for code
+  google: { temperature: 0.1, topP: 0.95, frequencyPenalty: 0, presencePenalty: 0 },
+  // xAI Grok
+  xai: { temperature: 0.1, topP: 0.9, frequencyPenalty: 0, presencePenalty: 0 },
+  // Meta Llama - balanced for code
+  meta: { temperature: 0.2, topP: 0.9, frequencyPenalty: 0, presencePenalty: 0 },
+  // OpenAI gpt-oss models
+  openai: { temperature: 0.1, topP: 0.9, frequencyPenalty: 0, presencePenalty: 0 },
+  // Default fallback
+  other: { temperature: 0.2, topP: 0.9, frequencyPenalty: 0, presencePenalty: 0 },
+};
 
-  // xAI Grok models: reasoning is controlled by model variant, not API parameter
-  // Models with "-reasoning" suffix or "mini" (which think before responding) support reasoning
-  if (modelId.startsWith('xai.')) {
-    // grok-4-1-fast-reasoning has explicit reasoning suffix
-    // grok-4-1-fast-non-reasoning explicitly does NOT support reasoning
-    // grok-3-mini and grok-3-mini-fast are "lightweight models that think before responding"
-    const isReasoningModel = (modelId.endsWith('-reasoning') || 
-                              modelId.includes('grok-3-mini')) &&
-                             !modelId.includes('-non-reasoning');
-    return { ...basePreset, supportsReasoning: isReasoningModel };
-  }
+/**
+ * Named sampling profiles selectable per call via providerOptions['oci-genai'].preset.
+ * 'swe' keeps the model's own tuned defaults.
+ */
+const PRESET_PROFILES: Record<string, OCISamplingPreset> = {
+  swe: {},
+  deterministic: { temperature: 0, topP: 1, frequencyPenalty: 0, presencePenalty: 0 },
+  creative: { temperature: 0.9, topP: 0.95 },
+};
 
-  // Cohere reasoning models (command-a-reasoning-*) support thinking via thinkingBudgetTokens (not reasoningEffort)
-  if (modelId.includes('reasoning')) {
-    return { ...basePreset, supportsReasoning: true };
-  }
+const PRESET_NUMBER_FIELDS = ['temperature', 'topP', 'frequencyPenalty', 'presencePenalty'] as const;
+const PRESET_BOOLEAN_FIELDS = ['supportsTools', 'supportsPenalties', 'supportsStopSequences', 'supportsReasoning'] as const;
+const REASONING_CONTROLS: readonly ReasoningControl[] = ['none', 'reasoning-effort', 'thinking-budget', 'model-variant'];
 
-  // Note: Google Gemini models do NOT support reasoningEffort parameter in OCI GenAI
-  // Even though Gemini 2.5 Flash has reasoning capabilities, OCI doesn't expose the parameter
+/**
+ * Drop undefined fields so they don't erase values when spread over a preset
+ */
+function definedValues<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
 
-  // Note: Meta Llama 4 models do NOT support reasoningEffort parameter in OCI
-  // They may have internal reasoning but don't expose API control for it
+/**
+ * Resolve the preset for a model: catalog capabilities and vendor sampling
+ * defaults, then user overrides for the vendor prefix, then for the exact model ID
+ */
+function getSWEPreset(modelId: string, presets?: Record<string, OCIModelPreset>): SWEPreset {
+  const info = getModelInfo(modelId);
+  return {
+    ...SWE_SAMPLING[info.vendor],
+    supportsTools: info.supportsTools,
+    supportsPenalties: info.supportsPenalties,
+    supportsStopSequences: info.supportsStopSequences,
+    supportsReasoning: info.supportsReasoning,
+    reasoningControl: info.reasoningControl,
+    ...definedValues(presets?.[getModelVendorPrefix(modelId)] ?? {}),
+    ...definedValues(presets?.[modelId] ?? {}),
+  };
+}
 
-  return basePreset;
+function getModelVendorPrefix(modelId: string): string {
+  return modelId.split('.')[0];
 }
 
 type ModelFamily = 'cohere' | 'cohere-v2' | 'generic';
 
+const MODEL_FAMILIES: Record<ModelApiFormat, ModelFamily> = {
+  COHERE: 'cohere',
+  COHEREV2: 'cohere-v2',
+  GENERIC: 'generic',
+};
+
 /**
  * Determine which API format to use for a model.
  * - cohere-v2: Command A models require COHEREV2 format
@@ -167,14 +314,12 @@ type ModelFamily = 'cohere' | 'cohere-v2' | 'generic';
  * - generic: All other models (Gemini, Llama, Grok) use GENERIC format
  */
 function getModelFamily(modelId: string): ModelFamily {
-  if (modelId.startsWith('cohere.')) {
-    // Command A models require V2 API format
-    if (modelId.includes('command-a')) {
-      return 'cohere-v2';
-    }
-    return 'cohere';
-  }
-  return 'generic';
+  return MODEL_FAMILIES[getModelInfo(modelId).apiFormat];
+}
+
+/** `Object.hasOwn`, which the ES2020 lib does not declare */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
 }
 
 function generateId(): string {
@@ -183,11 +328,11 @@ function generateId(): string {
 
 function abortablePromise<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
   if (signal.aborted) {
-    return Promise.reject(new DOMException('The operation was aborted.', 'AbortError'));
+    return Promise.reject(abortError());
   }
   return new Promise<T>((resolve, reject) => {
     const onAbort = () => {
-      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      reject(abortError());
     };
     signal.addEventListener('abort', onAbort, { once: true });
     promise.then(
@@ -203,6 +348,163 @@ function abortablePromise<T>(promise: Promise<T>, signal: AbortSignal): Promise<
   });
 }
 
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(abortError());
+  }
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function resolveRetrySettings(retry: OCIRetrySettings | false | undefined): Required<OCIRetrySettings> {
+  if (retry === false) {
+    return { ...DEFAULT_RETRY_SETTINGS, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_RETRY_SETTINGS, ...retry };
+}
+
+function isRetryableError(error: any, retry: Required<OCIRetrySettings>): boolean {
+  const statusCode = error?.statusCode ?? error?.response?.status;
+  const serviceCode = error?.serviceCode ?? error?.code;
+  return retry.retryableStatusCodes.includes(statusCode) || retry.retryableServiceCodes.includes(serviceCode);
+}
+
+/**
+ * Read a Retry-After header (delay in seconds or an HTTP date) from an error, in milliseconds.
+ */
+function getRetryAfterMs(error: any): number | undefined {
+  const headers = error?.responseHeaders ?? error?.headers ?? error?.response?.headers;
+  if (!headers) return undefined;
+
+  const value: string | null | undefined = typeof headers.get === 'function'
+    ? headers.get('retry-after')
+    : headers['retry-after'] ?? headers['Retry-After'];
+  if (value === null || value === undefined || value === '') return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function getBackoffDelayMs(attempt: number, retry: Required<OCIRetrySettings>): number {
+  const delay = Math.min(retry.baseDelayMs * 2 ** (attempt - 1), retry.maxDelayMs);
+  const spread = delay * Math.min(Math.max(retry.jitter, 0), 1);
+  return Math.max(0, Math.round(delay - spread + Math.random() * spread * 2));
+}
+
+/**
+ * Run an OCI call, retrying retryable failures with exponential backoff.
+ * Gives up early when the service asks to wait longer than maxDelayMs.
+ */
+async function withRetry<T>(
+  operation: () => Promise<T>,
+  retrySettings: OCIRetrySettings | false | undefined,
+  abortSignal?: AbortSignal,
+): Promise<T> {
+  const retry = resolveRetrySettings(retrySettings);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retry.maxAttempts || abortSignal?.aborted || !isRetryableError(error, retry)) {
+        throw error;
+      }
+
+      const retryAfterMs = getRetryAfterMs(error);
+      if (retryAfterMs !== undefined && retryAfterMs > retry.maxDelayMs) {
+        throw error;
+      }
+      const delayMs = retryAfterMs ?? getBackoffDelayMs(attempt, retry);
+
+      if (process.env.OCI_DEBUG) {
+        console.error(
+          `[OCI Debug] Attempt ${attempt}/${retry.maxAttempts} failed (${(error as any)?.statusCode ?? 'no status'}), ` +
+          `retrying in ${delayMs}ms`
+        );
+      }
+      await sleep(delayMs, abortSignal);
+    }
+  }
+}
+
+/** How long a throttled or failing region moves to the back of the order */
+const REGION_COOLDOWN_MS = 30_000;
+/** Weight of the newest sample in the moving latency average */
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * Orders the regions of a `regions` setting for each request. Routers are
+ * shared per region list and strategy, so all models of a provider rotate and
+ * learn latencies together.
+ */
+class RegionRouter {
+  private static readonly shared = new Map<string, RegionRouter>();
+
+  private turn = 0;
+  private readonly latencyMs = new Map<string, number>();
+  private readonly cooldownUntil = new Map<string, number>();
+
+  private constructor(private readonly strategy: OCIRegionStrategy) {}
+
+  static for(regions: string[], strategy: OCIRegionStrategy): RegionRouter {
+    const key = `${strategy}:${regions.join(',')}`;
+    let router = RegionRouter.shared.get(key);
+    if (!router) {
+      router = new RegionRouter(strategy);
+      RegionRouter.shared.set(key, router);
+    }
+    return router;
+  }
+
+  /**
+   * Regions in the order to try them. Regions cooling down after a failure go last.
+   */
+  order(regions: string[]): string[] {
+    let ordered = regions;
+    if (this.strategy === 'round-robin') {
+      const start = this.turn++ % regions.length;
+      ordered = [...regions.slice(start), ...regions.slice(0, start)];
+    } else if (this.strategy === 'lowest-latency') {
+      // Regions without samples sort first so each gets measured
+      ordered = [...regions].sort((a, b) => (this.latencyMs.get(a) ?? 0) - (this.latencyMs.get(b) ?? 0));
+    }
+
+    const now = Date.now();
+    const coolingDown = (region: string) => (this.cooldownUntil.get(region) ?? 0) > now;
+    return [...ordered.filter(region => !coolingDown(region)), ...ordered.filter(coolingDown)];
+  }
+
+  recordSuccess(region: string, elapsedMs: number): void {
+    const previous = this.latencyMs.get(region);
+    this.latencyMs.set(
+      region,
+      previous === undefined ? elapsedMs : previous + LATENCY_SMOOTHING * (elapsedMs - previous)
+    );
+    this.cooldownUntil.delete(region);
+  }
+
+  recordFailure(region: string): void {
+    this.cooldownUntil.set(region, Date.now() + REGION_COOLDOWN_MS);
+  }
+}
+
 function mapFinishReason(raw: string | undefined): LanguageModelV2FinishReason {
   switch (raw) {
     case 'MAX_TOKENS':
@@ -230,105 +532,331 @@ function mapFinishReason(raw: string | undefined): LanguageModelV2FinishReason {
   }
 }
 
-function createUsage(promptTokens?: number, completionTokens?: number, reasoningTokens?: number): LanguageModelV2Usage {
-  const usage: LanguageModelV2Usage = {
-    inputTokens: promptTokens,
-    outputTokens: completionTokens,
-    totalTokens: promptTokens !== undefined && completionTokens !== undefined
-      ? promptTokens + completionTokens
-      : undefined,
+/**
+ * Token counts of a response, as far as OCI reported them
+ */
+interface UsageCounts {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+  reasoningTokens?: number;
+  cachedInputTokens?: number;
+}
+
+function firstCount(...values: unknown[]): number | undefined {
+  return values.find((value): value is number => typeof value === 'number' && Number.isFinite(value));
+}
+
+/**
+ * Read token counts from any OCI usage object. The API formats and streaming
+ * events name the same counts differently (OCI `Usage`, Cohere `billed_units`,
+ * OpenAI-style snake_case and `*_details`), so every code path goes through here.
+ * Counts the object does not carry are left out, so partial usage events can be merged.
+ */
+function extractUsageCounts(usage: any): UsageCounts {
+  if (!usage || typeof usage !== 'object') {
+    return {};
+  }
+  const billed = usage.billedUnits || usage.billed_units;
+  const promptDetails = usage.promptTokensDetails || usage.prompt_tokens_details;
+  const completionDetails = usage.completionTokensDetails || usage.completion_tokens_details;
+
+  const counts: UsageCounts = {
+    inputTokens: firstCount(usage.promptTokens, usage.inputTokens, usage.prompt_tokens, usage.input_tokens,
+      billed?.inputTokens, billed?.input_tokens),
+    outputTokens: firstCount(usage.completionTokens, usage.outputTokens, usage.completion_tokens, usage.output_tokens,
+      billed?.outputTokens, billed?.output_tokens),
+    totalTokens: firstCount(usage.totalTokens, usage.total_tokens),
+    reasoningTokens: firstCount(completionDetails?.reasoningTokens, completionDetails?.reasoning_tokens,
+      usage.reasoningTokens, usage.reasoning_tokens, usage.thinkingTokens),
+    cachedInputTokens: firstCount(promptDetails?.cachedTokens, promptDetails?.cached_tokens,
+      usage.cachedTokens, usage.cached_tokens, usage.cachedInputTokens),
+  };
+  for (const key of Object.keys(counts) as (keyof UsageCounts)[]) {
+    if (counts[key] === undefined) {
+      delete counts[key];
+    }
+  }
+  return counts;
+}
+
+function createUsage(counts: UsageCounts): LanguageModelV2Usage {
+  const inputTokens = counts.inputTokens ?? 0;
+  const outputTokens = counts.outputTokens ?? 0;
+  return {
+    inputTokens,
+    outputTokens,
+    // Prefer the reported total, which may include reasoning overhead
+    totalTokens: counts.totalTokens ?? inputTokens + outputTokens,
+    ...(counts.reasoningTokens && { reasoningTokens: counts.reasoningTokens }),
+    ...(counts.cachedInputTokens && { cachedInputTokens: counts.cachedInputTokens }),
   };
-  if (reasoningTokens !== undefined && reasoningTokens > 0) {
-    (usage as any).reasoningTokens = reasoningTokens;
+}
+
+/**
+ * Record a call warning once, so repeated conversions (e.g. one per message) don't flood the list
+ */
+function addWarning(warnings: LanguageModelV2CallWarning[], warning: LanguageModelV2CallWarning): void {
+  const key = JSON.stringify(warning);
+  if (!warnings.some(existing => JSON.stringify(existing) === key)) {
+    warnings.push(warning);
+  }
+}
+
+/**
+ * Stable error categories for OCI GenAI failures, independent of message wording.
+ */
+export type OCIGenAIErrorKind =
+  | 'throttled'
+  | 'auth'
+  | 'not-found'
+  | 'context-overflow'
+  | 'invalid-parameter'
+  | 'server'
+  | 'timeout'
+  | 'unknown';
+
+export interface OCIGenAIErrorOptions {
+  message: string;
+  kind: OCIGenAIErrorKind;
+  hint?: string;
+  modelId?: string;
+  url?: string;
+  requestBodyValues?: unknown;
+  statusCode?: number;
+  responseHeaders?: Record<string, string>;
+  serviceCode?: string;
+  opcRequestId?: string;
+  isRetryable?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * Error raised for failed OCI GenAI calls. Extends the AI SDK's APICallError so
+ * callers can rely on `statusCode` and `isRetryable`; `hint` carries the
+ * suggested fix separately from the message.
+ */
+export class OCIGenAIError extends APICallError {
+  readonly kind: OCIGenAIErrorKind;
+  readonly hint?: string;
+  readonly modelId?: string;
+  readonly serviceCode?: string;
+  readonly opcRequestId?: string;
+
+  constructor({ kind, hint, modelId, serviceCode, opcRequestId, url, requestBodyValues, ...rest }: OCIGenAIErrorOptions) {
+    super({ ...rest, url: url ?? '', requestBodyValues });
+    this.name = 'OCIGenAIError';
+    this.kind = kind;
+    this.hint = hint;
+    this.modelId = modelId;
+    this.serviceCode = serviceCode;
+    this.opcRequestId = opcRequestId;
+  }
+}
+
+/**
+ * Thrown when an OCI CLI session token has expired and cannot be refreshed.
+ */
+export class OCISessionExpiredError extends OCIGenAIError {
+  constructor(
+    readonly profile: string,
+    options: Partial<Omit<OCIGenAIErrorOptions, 'message' | 'kind' | 'hint'>> = {}
+  ) {
+    super({
+      ...options,
+      message: `[OCI GenAI] Session expired for profile "${profile}"`,
+      kind: 'auth',
+      hint: `Run \`oci session authenticate --profile ${profile}\` to start a new session.`,
+      statusCode: options.statusCode ?? 401,
+      isRetryable: false,
+    });
+    this.name = 'OCISessionExpiredError';
+  }
+}
+
+const STREAM_TIMEOUT_DETAILS: Record<OCIStreamTimeoutKind, { setting: keyof StreamTimeouts; message: string }> = {
+  'first-byte': { setting: 'firstByteTimeoutMs', message: 'No response from OCI' },
+  idle: { setting: 'idleTimeoutMs', message: 'Stream stalled: no data from OCI' },
+  total: { setting: 'totalTimeoutMs', message: 'Stream did not finish' },
+};
+
+/**
+ * Emitted when a streaming call hits one of its timeouts. The request is
+ * cancelled; `isRetryable` is true only while no output has been emitted,
+ * so a retry cannot duplicate text or tool calls.
+ */
+export class OCIStreamTimeoutError extends OCIGenAIError {
+  constructor(
+    readonly timeout: OCIStreamTimeoutKind,
+    readonly timeoutMs: number,
+    options: Partial<Omit<OCIGenAIErrorOptions, 'message' | 'kind' | 'hint'>> = {}
+  ) {
+    const { setting, message } = STREAM_TIMEOUT_DETAILS[timeout];
+    super({
+      isRetryable: true,
+      ...options,
+      message: `[OCI GenAI] ${message} within ${timeoutMs}ms (${setting})`,
+      kind: 'timeout',
+      hint: `Raise ${setting}, or set it to 0 to disable the timeout, if the model needs longer.`,
+    });
+    this.name = 'OCIStreamTimeoutError';
   }
-  return usage;
 }
 
 /**
- * Parse OCI API errors and return user-friendly messages.
+ * Map an HTTP status code to an error kind.
+ */
+function getErrorKindForStatus(statusCode: number | undefined): OCIGenAIErrorKind | undefined {
+  if (statusCode === 429) return 'throttled';
+  if (statusCode === 401 || statusCode === 403) return 'auth';
+  if (statusCode === 404) return 'not-found';
+  if (statusCode === 400) return 'invalid-parameter';
+  if (statusCode !== undefined && statusCode >= 500) return 'server';
+  return undefined;
+}
+
+/**
+ * OCI service codes (OciError.serviceCode) and the error kind they stand for
+ */
+const SERVICE_CODE_KINDS: Record<string, OCIGenAIErrorKind> = {
+  TooManyRequests: 'throttled',
+  NotAuthenticated: 'auth',
+  NotAuthorizedOrNotFound: 'not-found',
+  NotFound: 'not-found',
+  InvalidParameter: 'invalid-parameter',
+  MissingParameter: 'invalid-parameter',
+  InternalServerError: 'server',
+  ServiceUnavailable: 'server',
+};
+
+/**
+ * The error kind reported by the service: from the service code, else the HTTP status
+ */
+function getReportedErrorKind(serviceCode: string | undefined, statusCode: number | undefined): OCIGenAIErrorKind | undefined {
+  return (serviceCode && hasOwn(SERVICE_CODE_KINDS, serviceCode) ? SERVICE_CODE_KINDS[serviceCode] : undefined) ??
+    getErrorKindForStatus(statusCode);
+}
+
+/**
+ * Parse OCI API errors into OCIGenAIError with user-friendly messages.
  * OCI errors are often cryptic (e.g., "Please pass in correct format of request")
  * and don't provide actionable information.
  */
-function parseOCIError(error: any, modelId: string): Error {
+function parseOCIError(
+  error: any,
+  modelId: string,
+  settings?: OCIProviderSettings,
+  requestBodyValues?: unknown,
+): OCIGenAIError {
+  if (error instanceof OCIGenAIError) {
+    return error;
+  }
+
   const originalMessage = error?.message || String(error);
   
   // Extract useful info from OCI error structure
-  const statusCode = error?.statusCode || error?.response?.status;
-  const serviceCode = error?.serviceCode || error?.code;
-  const opcRequestId = error?.opcRequestId;
+  const statusCode: number | undefined = error?.statusCode || error?.response?.status;
+  const serviceCode: string | undefined = error?.serviceCode || error?.code;
+  const opcRequestId: string | undefined = error?.opcRequestId || undefined;
+  // OciError.requestEndpoint is "<METHOD> <url>"
+  const url = typeof error?.requestEndpoint === 'string'
+    ? error.requestEndpoint.split(' ').pop()
+    : undefined;
+  const details = {
+    modelId,
+    url,
+    requestBodyValues,
+    statusCode,
+    responseHeaders: error?.responseHeaders,
+    serviceCode,
+    opcRequestId,
+    cause: error,
+  };
+
+  // A 401 with session-token auth almost always means the CLI session ran out
+  if (settings?.authProvider === 'session-token' &&
+      (statusCode === 401 || serviceCode === 'NotAuthenticated')) {
+    return new OCISessionExpiredError(settings.configProfile || 'DEFAULT', details);
+  }
   
   // Common OCI error patterns and their user-friendly translations
-  const errorPatterns: Array<{ pattern: RegExp | string; message: string; hint?: string }> = [
+  const errorPatterns: Array<{ pattern: RegExp | string; kind: OCIGenAIErrorKind; message: string; hint?: string }> = [
     {
       pattern: /Please pass in correct format of request/i,
+      kind: 'invalid-parameter',
       message: 'OCI API rejected the request format',
       hint: 'This usually indicates an issue with message structure or tool call format. Enable OCI_DEBUG=1 for details.',
     },
     {
       pattern: /Service request limit is exceeded|request is throttled/i,
+      kind: 'throttled',
       message: 'Rate limit exceeded',
       hint: 'Wait a moment before retrying. Consider using a different model or region.',
     },
     {
-      pattern: /NotAuthorizedOrNotFound|404/i,
+      pattern: /context.*length|tokens?.*limit|limit.*tokens|too long/i,
+      kind: 'context-overflow',
+      message: 'Input exceeds model context length',
+      hint: 'Reduce the size of your prompt or conversation history.',
+    },
+    {
+      pattern: /\bNotAuthorizedOrNotFound\b|\b404\b/i,
+      kind: 'not-found',
       message: 'Model or resource not found',
       hint: `Verify that model "${modelId}" is available in your region and compartment.`,
     },
     {
-      pattern: /InvalidParameter|validation error/i,
+      pattern: /\bInvalidParameter\b|validation error/i,
+      kind: 'invalid-parameter',
       message: 'Invalid parameter in request',
       hint: 'Check model-specific parameter limits (temperature, max_tokens, etc.).',
     },
     {
-      pattern: /Authentication|Unauthorized|401/i,
+      pattern: /\bAuthentication\b|\bUnauthorized\b|\b401\b/i,
+      kind: 'auth',
       message: 'Authentication failed',
       hint: 'Check your OCI config profile and API key setup.',
     },
     {
-      pattern: /InternalServerError|500|503/i,
+      pattern: /\bInternalServerError\b|\b50[03]\b/i,
+      kind: 'server',
       message: 'OCI service error',
       hint: 'This is an OCI-side issue. Try again or check OCI status page.',
     },
-    {
-      pattern: /context.*length|token.*limit|too long/i,
-      message: 'Input exceeds model context length',
-      hint: 'Reduce the size of your prompt or conversation history.',
-    },
   ];
-  
-  // Find matching pattern
-  for (const { pattern, message, hint } of errorPatterns) {
-    const matches = typeof pattern === 'string' 
-      ? originalMessage.includes(pattern)
-      : pattern.test(originalMessage);
-    
-    if (matches) {
-      let friendlyMessage = `[OCI GenAI] ${message}`;
-      if (hint) {
-        friendlyMessage += `\n  Hint: ${hint}`;
-      }
-      if (process.env.OCI_DEBUG) {
-        friendlyMessage += `\n  Original error: ${originalMessage}`;
-        if (opcRequestId) {
-          friendlyMessage += `\n  Request ID: ${opcRequestId}`;
-        }
-      }
-      return new Error(friendlyMessage);
+
+  // The service code and HTTP status decide the kind. Message patterns only pick
+  // the wording, refine a bad request into context-overflow, or classify errors
+  // that carry neither (e.g. network or SDK errors).
+  const reportedKind = getReportedErrorKind(serviceCode, statusCode);
+  const matched = errorPatterns.find(({ pattern, kind }) =>
+    (!reportedKind || kind === reportedKind || (reportedKind === 'invalid-parameter' && kind === 'context-overflow')) &&
+    (typeof pattern === 'string' ? originalMessage.includes(pattern) : pattern.test(originalMessage))
+  );
+  const kind = matched?.kind ?? reportedKind ?? 'unknown';
+  // Never retry on the strength of a message match alone
+  const isRetryable = isRetryableError(error, resolveRetrySettings(settings?.retry)) ||
+    reportedKind === 'throttled' || reportedKind === 'server';
+
+  let message: string;
+  if (matched) {
+    message = `[OCI GenAI] ${matched.message}`;
+    if (process.env.OCI_DEBUG) {
+      message += `\n  Original error: ${originalMessage}`;
     }
+  } else {
+    // No pattern matched - return enhanced generic error
+    message = `[OCI GenAI] API error for model "${modelId}"`;
+    if (statusCode) {
+      message += ` (HTTP ${statusCode})`;
+    }
+    message += `: ${originalMessage}`;
   }
-  
-  // No pattern matched - return enhanced generic error
-  let genericMessage = `[OCI GenAI] API error for model "${modelId}"`;
-  if (statusCode) {
-    genericMessage += ` (HTTP ${statusCode})`;
-  }
-  genericMessage += `: ${originalMessage}`;
-  
   if (process.env.OCI_DEBUG && opcRequestId) {
-    genericMessage += `\n  Request ID: ${opcRequestId}`;
+    message += `\n  Request ID: ${opcRequestId}`;
   }
-  
-  return new Error(genericMessage);
+
+  return new OCIGenAIError({ ...details, message, kind, hint: matched?.hint, isRetryable });
 }
 
 /**
@@ -356,92 +884,403 @@ function jsonSchemaToCohereparams(schema: JSONSchema7): Record<string, any> {
 }
 
 /**
- * Parse SSE (Server-Sent Events) stream from OCI GenAI
- * OCI returns text/event-stream format when isStream: true
+ * One piece of a streamed tool call, in whichever shape the model family sends it
  */
-async function handleSSEStream(
-  sseStream: ReadableStream<Uint8Array>,
-  controller: ReadableStreamDefaultController<LanguageModelV2StreamPart>,
-  modelFamily: string,
-  swePreset: { supportsReasoning?: boolean },
-  textId: string,
-  reasoningId: string
-): Promise<void> {
-  const reader = sseStream.getReader();
-  const decoder = new TextDecoder();
-  let buffer = '';
-  
-  // State tracking
-  let textStarted = false;
-  let reasoningStarted = false;
-  let finishReason: LanguageModelV2FinishReason = 'stop';
-  let promptTokens = 0;
-  let completionTokens = 0;
-  const toolCalls: Map<string, { toolName: string; input: string }> = new Map();
-  const toolCallsStarted: Set<string> = new Set();
+interface ToolCallChunk {
+  /** Position of the call in the response, for streams that identify calls by index */
+  index?: number;
+  id?: string;
+  name?: string;
+  /** Argument text to append, or the complete arguments as an object */
+  arguments?: string | Record<string, unknown>;
+}
 
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+interface PendingToolCall {
+  toolCallId: string;
+  /** Whether toolCallId came from the service rather than generateId() */
+  hasServiceId: boolean;
+  toolName: string;
+  input: string;
+  started: boolean;
+  done: boolean;
+}
 
-      buffer += decoder.decode(value, { stream: true });
+function isCompleteJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-      // Parse SSE events from buffer
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || ''; // Keep incomplete line in buffer
+/**
+ * Assembles streamed tool calls for every model family. Chunks are matched to
+ * a call by ID, then by stream index, so deltas of several parallel calls may
+ * interleave; a chunk with neither continues the latest call unless it names
+ * a different tool or that call's arguments are already complete. A call is
+ * emitted as `tool-call` only once its arguments are complete JSON.
+ */
+class ToolCallAccumulator {
+  private readonly calls: PendingToolCall[] = [];
+  private readonly byId = new Map<string, PendingToolCall>();
+  private readonly byIndex = new Map<number, PendingToolCall>();
+  private emitted = 0;
 
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6).trim();
-          if (!data || data === '[DONE]') continue;
+  constructor(private readonly controller: ReadableStreamDefaultController<LanguageModelV2StreamPart>) {}
 
-          try {
-            const event = JSON.parse(data);
+  /** Number of `tool-call` parts emitted so far */
+  get emittedCount(): number {
+    return this.emitted;
+  }
 
-            if (process.env.OCI_DEBUG) {
-              console.error('[OCI Debug SSE Event]', JSON.stringify(event, null, 2));
-            }
+  add(chunk: ToolCallChunk): void {
+    // Services send null for absent fields
+    const call = this.resolve({
+      ...chunk,
+      id: typeof chunk.id === 'string' ? chunk.id : undefined,
+      index: typeof chunk.index === 'number' ? chunk.index : undefined,
+    });
+    if (call.done) {
+      return;
+    }
+    if (chunk.name && !call.toolName) {
+      call.toolName = chunk.name;
+    }
 
-            // Handle different event types based on model family
-            if (modelFamily === 'cohere-v2' || modelFamily === 'cohere') {
-              await handleCohereSSEEvent(
-                event,
-                controller,
-                { textId, reasoningId, textStarted, reasoningStarted, toolCalls, toolCallsStarted },
-                (updates) => {
-                  if (updates.textStarted !== undefined) textStarted = updates.textStarted;
-                  if (updates.reasoningStarted !== undefined) reasoningStarted = updates.reasoningStarted;
-                  if (updates.finishReason !== undefined) finishReason = updates.finishReason;
-                  if (updates.promptTokens !== undefined) promptTokens = updates.promptTokens;
-                  if (updates.completionTokens !== undefined) completionTokens = updates.completionTokens;
-                }
-              );
-            } else {
-              // Generic/Gemini format
-              await handleGenericSSEEvent(
-                event,
-                controller,
-                { textId, reasoningId, textStarted, reasoningStarted, toolCalls, toolCallsStarted },
-                swePreset,
-                (updates) => {
-                  if (updates.textStarted !== undefined) textStarted = updates.textStarted;
-                  if (updates.reasoningStarted !== undefined) reasoningStarted = updates.reasoningStarted;
-                  if (updates.finishReason !== undefined) finishReason = updates.finishReason;
-                  if (updates.promptTokens !== undefined) promptTokens = updates.promptTokens;
-                  if (updates.completionTokens !== undefined) completionTokens = updates.completionTokens;
-                }
-              );
-            }
+    const args = chunk.arguments;
+    let delta = '';
+    if (typeof args === 'string') {
+      // A complete payload arriving for a call that is already complete is a repeat
+      delta = isCompleteJson(call.input) && isCompleteJson(args) ? '' : args;
+    } else if (args && typeof args === 'object' && call.input === '') {
+      delta = JSON.stringify(args);
+    }
+
+    if (!call.started && (call.toolName || delta)) {
+      this.start(call);
+    }
+    if (delta) {
+      call.input += delta;
+      this.controller.enqueue({ type: 'tool-input-delta', id: call.toolCallId, delta });
+    }
+  }
+
+  /**
+   * The stream marked a call as finished; emit it if its arguments are complete
+   */
+  end(key: { index?: number; id?: string } = {}): void {
+    const id = typeof key.id === 'string' ? key.id : undefined;
+    const index = typeof key.index === 'number' ? key.index : undefined;
+    const call = (id !== undefined && this.byId.get(id))
+      || (index !== undefined && this.byIndex.get(index))
+      || (id === undefined && index === undefined ? this.calls.at(-1) : undefined);
+    if (call && !call.done) {
+      this.emit(call, false);
+    }
+  }
+
+  /**
+   * Emit all remaining calls at the end of the stream. Calls whose arguments
+   * never became valid JSON are reported as error parts instead.
+   */
+  flush(): void {
+    for (const call of this.calls) {
+      if (!call.done) {
+        this.emit(call, true);
+      }
+    }
+  }
+
+  private resolve(chunk: ToolCallChunk): PendingToolCall {
+    const { id, index } = chunk;
+    if (id) {
+      const known = this.byId.get(id);
+      if (known) {
+        return known;
+      }
+      const atIndex = index !== undefined ? this.byIndex.get(index) : undefined;
+      if (atIndex && !atIndex.hasServiceId) {
+        // First chunk at this index without an ID, later ones with it
+        atIndex.toolCallId = id;
+        atIndex.hasServiceId = true;
+        this.byId.set(id, atIndex);
+        return atIndex;
+      }
+      return this.create(chunk);
+    }
+
+    if (index !== undefined) {
+      return this.byIndex.get(index) ?? this.create(chunk);
+    }
+
+    const latest = this.calls.at(-1);
+    const continuesLatest = latest && !latest.done && (
+      !chunk.name || (chunk.name === latest.toolName && !isCompleteJson(latest.input))
+    );
+    return continuesLatest ? latest : this.create(chunk);
+  }
+
+  private create(chunk: ToolCallChunk): PendingToolCall {
+    const hasServiceId = Boolean(chunk.id);
+    const call: PendingToolCall = {
+      toolCallId: hasServiceId ? chunk.id! : generateId(),
+      hasServiceId,
+      toolName: '',
+      input: '',
+      started: false,
+      done: false,
+    };
+    this.calls.push(call);
+    if (hasServiceId) {
+      this.byId.set(call.toolCallId, call);
+    }
+    if (chunk.index !== undefined) {
+      this.byIndex.set(chunk.index, call);
+    }
+    return call;
+  }
+
+  private start(call: PendingToolCall): void {
+    call.started = true;
+    this.controller.enqueue({ type: 'tool-input-start', id: call.toolCallId, toolName: call.toolName });
+  }
+
+  private emit(call: PendingToolCall, final: boolean): void {
+    // Tools without parameters may stream no arguments at all
+    const input = call.input.trim() === '' ? '{}' : call.input;
+    const complete = isCompleteJson(input);
+    if (!complete && !final) {
+      return;
+    }
+
+    call.done = true;
+    if (!call.started) {
+      this.start(call);
+    }
+    this.controller.enqueue({ type: 'tool-input-end', id: call.toolCallId });
+    if (!complete) {
+      this.controller.enqueue({ type: 'error', error: new JSONParseError({ text: call.input, cause: new Error(
+        `Arguments of tool call "${call.toolName}" (${call.toolCallId}) ended before forming complete JSON`
+      ) }) });
+      return;
+    }
+    this.emitted++;
+    this.controller.enqueue({ type: 'tool-call', toolCallId: call.toolCallId, toolName: call.toolName, input });
+  }
+}
+
+/**
+ * Wrap a stream controller to notice the first output part. Once text, reasoning
+ * or tool input went out, a failed stream can no longer be retried without
+ * duplicating it.
+ */
+function trackOutput(
+  controller: ReadableStreamDefaultController<LanguageModelV2StreamPart>,
+  onOutput: () => void,
+): ReadableStreamDefaultController<LanguageModelV2StreamPart> {
+  let seen = false;
+  return {
+    get desiredSize() {
+      return controller.desiredSize;
+    },
+    enqueue(part) {
+      if (!seen && part && part.type !== 'stream-start' && part.type !== 'response-metadata' && part.type !== 'error') {
+        seen = true;
+        onOutput();
+      }
+      controller.enqueue(part);
+    },
+    close: () => controller.close(),
+    error: (reason) => controller.error(reason),
+  };
+}
+
+/**
+ * Resolve the stream timeouts of a call: providerOptions['oci-genai'] values
+ * win over the provider settings.
+ */
+function resolveStreamTimeouts(
+  settings: OCIProviderSettings,
+  providerOptions: Record<string, unknown> | undefined,
+): StreamTimeouts {
+  const timeouts: StreamTimeouts = {};
+  for (const name of STREAM_TIMEOUT_SETTINGS) {
+    const override = providerOptions?.[name];
+    if (override !== undefined && !isValidTimeoutMs(override)) {
+      throw new Error(
+        `[OCI GenAI] Invalid providerOptions['oci-genai'].${name} "${override}". ` +
+        `Expected a number of milliseconds between 0 and ${MAX_TIMEOUT_MS}.`
+      );
+    }
+    const value = (override as number | undefined) ?? settings[name];
+    if (value) {
+      timeouts[name] = value;
+    }
+  }
+  return timeouts;
+}
+
+/**
+ * Timers for the stream timeouts of one call. The first-byte and total timers
+ * start with the request; every chunk received (heartbeats included) ends the
+ * first-byte wait and restarts the idle timer. Only the first timeout fires.
+ */
+class StreamWatchdog {
+  private readonly timers = new Map<OCIStreamTimeoutKind, ReturnType<typeof setTimeout>>();
+  private receivedData = false;
+
+  constructor(
+    private readonly timeouts: StreamTimeouts,
+    private readonly onTimeout: (timeout: OCIStreamTimeoutKind, timeoutMs: number) => void,
+  ) {}
+
+  start(): void {
+    this.arm('first-byte', this.timeouts.firstByteTimeoutMs);
+    this.arm('total', this.timeouts.totalTimeoutMs);
+  }
+
+  progress(): void {
+    if (!this.receivedData) {
+      this.receivedData = true;
+      this.clear('first-byte');
+    }
+    this.arm('idle', this.timeouts.idleTimeoutMs);
+  }
+
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /** Pass the response body through, noting each chunk */
+  monitor<T>(body: ReadableStream<T>): ReadableStream<T> {
+    if (!this.timeouts.idleTimeoutMs && !this.timeouts.firstByteTimeoutMs) {
+      return body;
+    }
+    return body.pipeThrough(new TransformStream<T, T>({
+      transform: (chunk, controller) => {
+        this.progress();
+        controller.enqueue(chunk);
+      },
+    }));
+  }
+
+  private arm(timeout: OCIStreamTimeoutKind, timeoutMs: number | undefined): void {
+    this.clear(timeout);
+    if (!timeoutMs) {
+      return;
+    }
+    this.timers.set(timeout, setTimeout(() => {
+      this.stop();
+      this.onTimeout(timeout, timeoutMs);
+    }, timeoutMs));
+  }
+
+  private clear(timeout: OCIStreamTimeoutKind): void {
+    clearTimeout(this.timers.get(timeout));
+    this.timers.delete(timeout);
+  }
+}
+
+/**
+ * Parse SSE (Server-Sent Events) stream from OCI GenAI
+ * OCI returns text/event-stream format when isStream: true
+ */
+async function handleSSEStream(
+  sseStream: ReadableStream<Uint8Array>,
+  controller: ReadableStreamDefaultController<LanguageModelV2StreamPart>,
+  modelFamily: string,
+  swePreset: { supportsReasoning?: boolean },
+  textId: string,
+  reasoningId: string,
+  abortSignal?: AbortSignal
+): Promise<void> {
+  const events = sseStream.pipeThrough(new SSEDecoderStream({
+    onComment: (comment) => {
+      if (process.env.OCI_DEBUG) {
+        // Comments are the service's keep-alive heartbeats; they also reset idleTimeoutMs
+        console.error('[OCI Debug SSE Heartbeat]', comment);
+      }
+    },
+  }));
+  const reader = events.getReader();
+  // Cancelling the reader closes the underlying HTTP response
+  const onAbort = () => {
+    reader.cancel().catch(() => {});
+  };
+  abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+  // State tracking
+  let textStarted = false;
+  let reasoningStarted = false;
+  let finishReason: LanguageModelV2FinishReason = 'stop';
+  let usage: UsageCounts = {};
+  const toolCalls = new ToolCallAccumulator(controller);
+
+  const updateState = (updates: {
+    textStarted?: boolean;
+    reasoningStarted?: boolean;
+    finishReason?: LanguageModelV2FinishReason;
+    usage?: UsageCounts;
+  }) => {
+    if (updates.textStarted !== undefined) textStarted = updates.textStarted;
+    if (updates.reasoningStarted !== undefined) reasoningStarted = updates.reasoningStarted;
+    if (updates.finishReason !== undefined) finishReason = updates.finishReason;
+    if (updates.usage !== undefined) usage = { ...usage, ...updates.usage };
+  };
+
+  try {
+    while (true) {
+      const { done, value: sse } = await reader.read();
+      if (done) break;
+
+      switch (sse.event) {
+        case 'message': {
+          const data = sse.data.trim();
+          if (!data || data === '[DONE]') break;
+
+          let event;
+          try {
+            event = JSON.parse(data);
           } catch (parseError) {
-            if (process.env.OCI_DEBUG) {
-              console.error('[OCI Debug SSE Parse Error]', parseError, 'Data:', data);
-            }
+            // Report the chunk and keep streaming; later chunks may still be valid
+            controller.enqueue({ type: 'error', error: new JSONParseError({ text: data, cause: parseError }) });
+            break;
+          }
+
+          if (process.env.OCI_DEBUG) {
+            console.error('[OCI Debug SSE Event]', JSON.stringify(event, null, 2));
+          }
+
+          // Handle different event types based on model family
+          const state = { textId, reasoningId, textStarted, reasoningStarted, toolCalls };
+          if (modelFamily === 'cohere-v2' || modelFamily === 'cohere') {
+            await handleCohereSSEEvent(event, controller, state, swePreset, updateState);
+          } else {
+            // Generic/Gemini format
+            await handleGenericSSEEvent(event, controller, state, swePreset, updateState);
           }
+          break;
         }
+
+        case 'error':
+          controller.enqueue({ type: 'error', error: createStreamErrorEventError(sse.data) });
+          break;
+
+        default:
+          if (process.env.OCI_DEBUG) {
+            console.error('[OCI Debug SSE] Ignoring event type:', sse.event);
+          }
       }
     }
 
+    if (abortSignal?.aborted) {
+      throw abortError();
+    }
+
     // End any open streams
     if (textStarted) {
       controller.enqueue({ type: 'text-end', id: textId });
@@ -450,36 +1289,72 @@ async function handleSSEStream(
       controller.enqueue({ type: 'reasoning-end', id: reasoningId });
     }
 
-    // Emit completed tool calls
-    for (const [toolCallId, { toolName, input }] of toolCalls) {
-      if (!toolCallsStarted.has(toolCallId)) {
-        controller.enqueue({ type: 'tool-input-start', id: toolCallId, toolName });
-      }
-      controller.enqueue({ type: 'tool-input-end', id: toolCallId });
-      controller.enqueue({
-        type: 'tool-call',
-        toolCallId,
-        toolName,
-        input,
-      });
-    }
+    // Emit tool calls that no end event completed
+    toolCalls.flush();
 
     // Determine final finish reason
-    if (toolCalls.size > 0) {
+    if (toolCalls.emittedCount > 0) {
       finishReason = 'tool-calls';
     }
 
     controller.enqueue({
       type: 'finish',
       finishReason,
-      usage: createUsage(promptTokens, completionTokens),
+      usage: createUsage(usage),
     });
     controller.close();
+  } catch (error) {
+    await reader.cancel(error).catch(() => {});
+    throw error;
   } finally {
+    abortSignal?.removeEventListener('abort', onAbort);
     reader.releaseLock();
   }
 }
 
+/**
+ * Error for an `event: error` sent by the service in the middle of a stream
+ */
+function createStreamErrorEventError(data: string): OCIGenAIError {
+  let message = data;
+  let serviceCode: string | undefined;
+  let statusCode: number | undefined;
+  try {
+    const payload = JSON.parse(data);
+    const body = payload?.error ?? payload;
+    message = body?.message || payload?.message || data;
+    serviceCode = typeof body?.code === 'string' ? body.code : undefined;
+    statusCode = typeof body?.status === 'number' ? body.status : undefined;
+  } catch {
+    // Plain-text error payload
+  }
+  const kind = getReportedErrorKind(serviceCode, statusCode) ?? 'unknown';
+  return new OCIGenAIError({
+    message: `[OCI GenAI] Stream error: ${message}`,
+    kind,
+    serviceCode,
+    statusCode,
+    isRetryable: kind === 'throttled' || kind === 'server',
+  });
+}
+
+/**
+ * Emit a reasoning delta, opening the reasoning part on the first one
+ */
+function enqueueReasoningDelta(
+  controller: ReadableStreamDefaultController<LanguageModelV2StreamPart>,
+  state: { reasoningId: string; reasoningStarted: boolean },
+  updateState: (updates: { reasoningStarted?: boolean }) => void,
+  delta: string
+): void {
+  if (!state.reasoningStarted) {
+    controller.enqueue({ type: 'reasoning-start', id: state.reasoningId });
+    updateState({ reasoningStarted: true });
+    state.reasoningStarted = true;
+  }
+  controller.enqueue({ type: 'reasoning-delta', id: state.reasoningId, delta });
+}
+
 /**
  * Handle Cohere-specific SSE events
  * OCI Cohere V2 streaming uses a direct message.content format rather than event types
@@ -493,24 +1368,33 @@ async function handleCohereSSEEvent(
     reasoningId: string;
     textStarted: boolean;
     reasoningStarted: boolean;
-    toolCalls: Map<string, { toolName: string; input: string }>;
-    toolCallsStarted: Set<string>;
+    toolCalls: ToolCallAccumulator;
   },
+  swePreset: { supportsReasoning?: boolean },
   updateState: (updates: {
     textStarted?: boolean;
     reasoningStarted?: boolean;
     finishReason?: LanguageModelV2FinishReason;
-    promptTokens?: number;
-    completionTokens?: number;
+    usage?: UsageCounts;
   }) => void
 ): Promise<void> {
   const eventType = event.type || event.eventType;
 
   // OCI Cohere V2 streaming format: direct message content without event types
   // Each SSE chunk contains: { message: { content: [{ type: "TEXT", text: "..." }] } }
+  // Tool plan chunks are the model's reasoning about tool usage (as in doGenerate)
+  if (typeof event.message?.toolPlan === 'string' && event.message.toolPlan && swePreset.supportsReasoning) {
+    enqueueReasoningDelta(controller, state, updateState, event.message.toolPlan);
+  }
+
   if (event.message?.content && Array.isArray(event.message.content)) {
     for (const contentPart of event.message.content) {
-      if (contentPart.type === 'TEXT' && contentPart.text) {
+      const partType = (contentPart.type || '').toUpperCase();
+      // Command A Reasoning streams its thinking as THINKING parts
+      if (partType === 'THINKING' && contentPart.thinking) {
+        enqueueReasoningDelta(controller, state, updateState, contentPart.thinking);
+      }
+      if (partType === 'TEXT' && contentPart.text) {
         if (!state.textStarted) {
           controller.enqueue({ type: 'text-start', id: state.textId });
           updateState({ textStarted: true });
@@ -518,17 +1402,12 @@ async function handleCohereSSEEvent(
         controller.enqueue({ type: 'text-delta', id: state.textId, delta: contentPart.text });
       }
       // Handle tool calls in streaming format
-      if (contentPart.type === 'TOOL_CALL') {
-        const toolId = contentPart.id || generateId();
-        const toolName = contentPart.name || contentPart.function?.name || '';
-        const input = JSON.stringify(contentPart.parameters || contentPart.function?.arguments || {});
-        
-        if (!state.toolCalls.has(toolId)) {
-          state.toolCalls.set(toolId, { toolName, input });
-          state.toolCallsStarted.add(toolId);
-          controller.enqueue({ type: 'tool-input-start', id: toolId, toolName });
-          controller.enqueue({ type: 'tool-input-delta', id: toolId, delta: input });
-        }
+      if (partType === 'TOOL_CALL') {
+        state.toolCalls.add({
+          id: contentPart.id,
+          name: contentPart.name || contentPart.function?.name,
+          arguments: contentPart.parameters || contentPart.function?.arguments,
+        });
       }
     }
   }
@@ -536,25 +1415,36 @@ async function handleCohereSSEEvent(
   // Handle tool calls from message.toolCalls array
   if (event.message?.toolCalls && Array.isArray(event.message.toolCalls)) {
     for (const tc of event.message.toolCalls) {
-      const toolId = tc.id || generateId();
-      const toolName = tc.name || tc.function?.name || '';
-      const input = JSON.stringify(tc.parameters || tc.function?.arguments || {});
-      
-      if (!state.toolCalls.has(toolId)) {
-        state.toolCalls.set(toolId, { toolName, input });
-        state.toolCallsStarted.add(toolId);
-        controller.enqueue({ type: 'tool-input-start', id: toolId, toolName });
-        controller.enqueue({ type: 'tool-input-delta', id: toolId, delta: input });
+      state.toolCalls.add({
+        index: tc.index,
+        id: tc.id,
+        name: tc.name || tc.function?.name,
+        // V2 sends function.arguments as a JSON string
+        arguments: tc.parameters || tc.function?.arguments,
+      });
+    }
+  }
+
+  // Legacy COHERE format: { apiFormat: "COHERE", text: "..." } per chunk, with
+  // tool calls ({ name, parameters }) on the final event
+  if (event.apiFormat === 'COHERE') {
+    if (typeof event.text === 'string' && event.text && !event.finishReason) {
+      if (!state.textStarted) {
+        controller.enqueue({ type: 'text-start', id: state.textId });
+        updateState({ textStarted: true });
+      }
+      controller.enqueue({ type: 'text-delta', id: state.textId, delta: event.text });
+    }
+    if (Array.isArray(event.toolCalls)) {
+      for (const tc of event.toolCalls) {
+        state.toolCalls.add({ name: tc.name, arguments: tc.parameters || {} });
       }
     }
   }
 
   // Handle usage in streaming events
   if (event.usage) {
-    updateState({
-      promptTokens: event.usage.inputTokens || event.usage.promptTokens || event.usage.billed_units?.input_tokens,
-      completionTokens: event.usage.outputTokens || event.usage.completionTokens || event.usage.billed_units?.output_tokens,
-    });
+    updateState({ usage: extractUsageCounts(event.usage) });
   }
 
   // Handle finish reason
@@ -609,11 +1499,7 @@ async function handleCohereSSEEvent(
     case 'reasoning-delta':
       const thinkingDelta = event.delta?.thinking || event.delta?.text || event.thinking;
       if (thinkingDelta) {
-        if (!state.reasoningStarted) {
-          controller.enqueue({ type: 'reasoning-start', id: state.reasoningId });
-          updateState({ reasoningStarted: true });
-        }
-        controller.enqueue({ type: 'reasoning-delta', id: state.reasoningId, delta: thinkingDelta });
+        enqueueReasoningDelta(controller, state, updateState, thinkingDelta);
       }
       break;
 
@@ -629,23 +1515,20 @@ async function handleCohereSSEEvent(
       // Tool plan is reasoning about tool usage
       const planDelta = event.delta?.message?.tool_plan || event.delta?.tool_plan;
       if (planDelta) {
-        if (!state.reasoningStarted) {
-          controller.enqueue({ type: 'reasoning-start', id: state.reasoningId });
-          updateState({ reasoningStarted: true });
-        }
-        controller.enqueue({ type: 'reasoning-delta', id: state.reasoningId, delta: planDelta });
+        enqueueReasoningDelta(controller, state, updateState, planDelta);
       }
       break;
 
     case 'tool-call-start':
-      // Tool call starting
+      // Tool call starting; parallel calls are told apart by event.index
       const toolCallData = event.delta?.message?.tool_calls || event.delta?.tool_calls;
       if (toolCallData) {
-        const toolId = toolCallData.id || generateId();
-        const toolName = toolCallData.function?.name || toolCallData.name || '';
-        state.toolCalls.set(toolId, { toolName, input: '' });
-        state.toolCallsStarted.add(toolId);
-        controller.enqueue({ type: 'tool-input-start', id: toolId, toolName });
+        state.toolCalls.add({
+          index: event.index,
+          id: toolCallData.id,
+          name: toolCallData.function?.name || toolCallData.name,
+          arguments: toolCallData.function?.arguments,
+        });
       }
       break;
 
@@ -655,30 +1538,19 @@ async function handleCohereSSEEvent(
                        event.delta?.tool_calls?.function?.arguments ||
                        event.delta?.arguments;
       if (argsDelta) {
-        // Find the current tool call being built
-        const currentToolId = Array.from(state.toolCalls.keys()).pop();
-        if (currentToolId) {
-          const tc = state.toolCalls.get(currentToolId);
-          if (tc) {
-            tc.input += argsDelta;
-            controller.enqueue({ type: 'tool-input-delta', id: currentToolId, delta: argsDelta });
-          }
-        }
+        state.toolCalls.add({ index: event.index, arguments: argsDelta });
       }
       break;
 
     case 'tool-call-end':
-      // Tool call completed - don't emit full tool-call yet, wait for message-end
+      state.toolCalls.end({ index: event.index });
       break;
 
     case 'message-end':
       // Extract usage and finish reason
       const usage = event.delta?.usage || event.usage;
       if (usage) {
-        updateState({
-          promptTokens: usage.billed_units?.input_tokens || usage.inputTokens || usage.promptTokens,
-          completionTokens: usage.billed_units?.output_tokens || usage.outputTokens || usage.completionTokens,
-        });
+        updateState({ usage: extractUsageCounts(usage) });
       }
       const reason = event.delta?.finish_reason || event.finish_reason || event.finishReason;
       if (reason) {
@@ -699,10 +1571,11 @@ async function handleCohereSSEEvent(
         // Check for tool calls in response
         if (resp.toolCalls) {
           for (const tc of resp.toolCalls) {
-            const toolId = tc.id || generateId();
-            const toolName = tc.name || tc.function?.name || '';
-            const input = JSON.stringify(tc.parameters || tc.function?.arguments || {});
-            state.toolCalls.set(toolId, { toolName, input });
+            state.toolCalls.add({
+              id: tc.id,
+              name: tc.name || tc.function?.name,
+              arguments: tc.parameters || tc.function?.arguments || {},
+            });
           }
         }
         // Check for finish reason
@@ -725,18 +1598,21 @@ async function handleGenericSSEEvent(
     reasoningId: string;
     textStarted: boolean;
     reasoningStarted: boolean;
-    toolCalls: Map<string, { toolName: string; input: string }>;
-    toolCallsStarted: Set<string>;
+    toolCalls: ToolCallAccumulator;
   },
   swePreset: { supportsReasoning?: boolean },
   updateState: (updates: {
     textStarted?: boolean;
     reasoningStarted?: boolean;
     finishReason?: LanguageModelV2FinishReason;
-    promptTokens?: number;
-    completionTokens?: number;
+    usage?: UsageCounts;
   }) => void
 ): Promise<void> {
+  // Reasoning models put their reasoning on the message itself, next to content
+  if (typeof event.message?.reasoningContent === 'string' && event.message.reasoningContent && swePreset.supportsReasoning) {
+    enqueueReasoningDelta(controller, state, updateState, event.message.reasoningContent);
+  }
+
   // OCI Generic/Gemini format: direct message content (same as Cohere V2)
   // Format: { message: { role: "ASSISTANT", content: [{ type: "TEXT", text: "..." }] } }
   if (event.message?.content && Array.isArray(event.message.content)) {
@@ -750,16 +1626,11 @@ async function handleGenericSSEEvent(
       }
       // Handle tool calls in streaming format
       if (contentPart.type === 'TOOL_CALL' || contentPart.type === 'FUNCTION_CALL') {
-        const toolId = contentPart.id || generateId();
-        const toolName = contentPart.name || contentPart.function?.name || '';
-        const input = JSON.stringify(contentPart.parameters || contentPart.args || contentPart.function?.arguments || {});
-        
-        if (!state.toolCalls.has(toolId)) {
-          state.toolCalls.set(toolId, { toolName, input });
-          state.toolCallsStarted.add(toolId);
-          controller.enqueue({ type: 'tool-input-start', id: toolId, toolName });
-          controller.enqueue({ type: 'tool-input-delta', id: toolId, delta: input });
-        }
+        state.toolCalls.add({
+          id: contentPart.id,
+          name: contentPart.name || contentPart.function?.name,
+          arguments: contentPart.parameters || contentPart.args || contentPart.arguments || contentPart.function?.arguments,
+        });
       }
     }
   }
@@ -768,18 +1639,13 @@ async function handleGenericSSEEvent(
   // OCI Generic format returns: { message: { content: [...], toolCalls: [...] } }
   if (event.message?.toolCalls && Array.isArray(event.message.toolCalls)) {
     for (const tc of event.message.toolCalls) {
-      const toolId = tc.id || generateId();
-      const toolName = tc.name || tc.function?.name || '';
-      // Arguments can be a string or an object
-      const rawArgs = tc.arguments || tc.function?.arguments || tc.parameters || {};
-      const input = typeof rawArgs === 'string' ? rawArgs : JSON.stringify(rawArgs);
-      
-      if (!state.toolCalls.has(toolId)) {
-        state.toolCalls.set(toolId, { toolName, input });
-        state.toolCallsStarted.add(toolId);
-        controller.enqueue({ type: 'tool-input-start', id: toolId, toolName });
-        controller.enqueue({ type: 'tool-input-delta', id: toolId, delta: input });
-      }
+      state.toolCalls.add({
+        index: tc.index,
+        id: tc.id,
+        name: tc.name || tc.function?.name,
+        // Arguments can be a string or an object
+        arguments: tc.arguments || tc.function?.arguments || tc.parameters,
+      });
     }
   }
 
@@ -788,14 +1654,6 @@ async function handleGenericSSEEvent(
     updateState({ finishReason: mapFinishReason(event.finishReason) });
   }
 
-  // Handle usage at event level
-  if (event.usage) {
-    updateState({
-      promptTokens: event.usage.promptTokens || event.usage.inputTokens || event.usage.prompt_tokens,
-      completionTokens: event.usage.completionTokens || event.usage.outputTokens || event.usage.completion_tokens,
-    });
-  }
-
   // Also handle standard OpenAI-style choices array format (fallback)
   const choices = event.choices || (event.chatResponse?.choices);
   if (choices && choices.length > 0) {
@@ -825,11 +1683,7 @@ async function handleGenericSSEEvent(
 
     // Reasoning content
     if (delta?.reasoningContent && swePreset.supportsReasoning) {
-      if (!state.reasoningStarted) {
-        controller.enqueue({ type: 'reasoning-start', id: state.reasoningId });
-        updateState({ reasoningStarted: true });
-      }
-      controller.enqueue({ type: 'reasoning-delta', id: state.reasoningId, delta: delta.reasoningContent });
+      enqueueReasoningDelta(controller, state, updateState, delta.reasoningContent);
     }
 
     // Tool calls
@@ -837,25 +1691,13 @@ async function handleGenericSSEEvent(
     if (toolCalls) {
       const calls = Array.isArray(toolCalls) ? toolCalls : [toolCalls];
       for (const tc of calls) {
-        const toolId = tc.id || tc.index?.toString() || generateId();
         const funcCall = tc.function || tc;
-        const toolName = funcCall.name || tc.name;
-
-        if (!state.toolCalls.has(toolId)) {
-          state.toolCalls.set(toolId, { toolName: toolName || '', input: '' });
-        }
-
-        // Stream arguments
-        const args = funcCall.arguments;
-        if (args) {
-          const existing = state.toolCalls.get(toolId)!;
-          if (!state.toolCallsStarted.has(toolId)) {
-            state.toolCallsStarted.add(toolId);
-            controller.enqueue({ type: 'tool-input-start', id: toolId, toolName: existing.toolName || toolName });
-          }
-          existing.input += args;
-          controller.enqueue({ type: 'tool-input-delta', id: toolId, delta: args });
-        }
+        state.toolCalls.add({
+          index: tc.index,
+          id: tc.id,
+          name: funcCall.name || tc.name,
+          arguments: funcCall.arguments,
+        });
       }
     }
 
@@ -868,10 +1710,7 @@ async function handleGenericSSEEvent(
   // Usage info
   const usage = event.usage || event.chatResponse?.usage;
   if (usage) {
-    updateState({
-      promptTokens: usage.prompt_tokens || usage.promptTokens || usage.inputTokens,
-      completionTokens: usage.completion_tokens || usage.completionTokens || usage.outputTokens,
-    });
+    updateState({ usage: extractUsageCounts(usage) });
   }
 }
 
@@ -890,8 +1729,6 @@ async function handleNonStreamingResponse(
   let text = '';
   let reasoningContent = '';
   let finishReason: LanguageModelV2FinishReason;
-  let promptTokens = 0;
-  let completionTokens = 0;
   const toolCalls: LanguageModelV2ToolCall[] = [];
 
   if (process.env.OCI_DEBUG) {
@@ -933,226 +1770,903 @@ async function handleNonStreamingResponse(
       reasoningContent = message.toolPlan + (reasoningContent ? '\n' + reasoningContent : '');
     }
 
-    const hasToolCalls = toolCalls.length > 0;
-    finishReason = hasToolCalls ? 'tool-calls' : mapFinishReason(v2Response?.finishReason);
+    const hasToolCalls = toolCalls.length > 0;
+    finishReason = hasToolCalls ? 'tool-calls' : mapFinishReason(v2Response?.finishReason);
+  } else if (modelFamily === 'cohere') {
+    const cohereResponse = chatResult?.chatResponse as any;
+    text = cohereResponse?.text || '';
+
+    const cohereContent = cohereResponse?.content as any[] | undefined;
+    if (cohereContent && Array.isArray(cohereContent)) {
+      for (const part of cohereContent) {
+        if (part.type === 'THINKING' && part.thinking) {
+          reasoningContent = part.thinking;
+        }
+      }
+    }
+
+    const cohereToolCalls = cohereResponse?.toolCalls;
+    if (cohereToolCalls && Array.isArray(cohereToolCalls)) {
+      for (const toolCall of cohereToolCalls) {
+        toolCalls.push({
+          type: 'tool-call',
+          toolCallId: generateId(),
+          toolName: toolCall.name,
+          input: JSON.stringify(toolCall.parameters || {}),
+        });
+      }
+    }
+
+    finishReason = toolCalls.length > 0 ? 'tool-calls' : mapFinishReason(cohereResponse?.finishReason);
+  } else {
+    // Generic format (Gemini, Llama, xAI, etc.)
+    const genericResponse = chatResult?.chatResponse as any;
+    const choice = genericResponse?.choices?.[0];
+    const message = choice?.message;
+
+    if (message?.content && Array.isArray(message.content)) {
+      for (const part of message.content) {
+        const partType = (part.type || '').toUpperCase();
+        if (partType === 'TEXT' && part.text) {
+          text += part.text;
+        } else if (partType === 'TOOL_CALL' || partType === 'FUNCTION_CALL' || part.functionCall) {
+          const toolPart = part as any;
+          const funcCall = toolPart.functionCall || toolPart.function || toolPart;
+          const args = typeof toolPart.arguments === 'string'
+            ? toolPart.arguments
+            : typeof funcCall.arguments === 'string'
+            ? funcCall.arguments
+            : JSON.stringify(toolPart.arguments || funcCall.arguments || funcCall.args || {});
+          toolCalls.push({
+            type: 'tool-call',
+            toolCallId: toolPart.id || funcCall.id || generateId(),
+            toolName: toolPart.name || funcCall.name,
+            input: args,
+          });
+        }
+      }
+    } else if (typeof message?.content === 'string') {
+      text = message.content;
+    } else if (message?.text) {
+      text = message.text;
+    }
+
+    const msgToolCalls = message?.tool_calls || message?.toolCalls || message?.function_call;
+    if (msgToolCalls) {
+      const calls = Array.isArray(msgToolCalls) ? msgToolCalls : [msgToolCalls];
+      for (const tc of calls) {
+        const funcCall = tc.function || tc;
+        const args = typeof funcCall.arguments === 'string'
+          ? funcCall.arguments
+          : JSON.stringify(funcCall.arguments || funcCall.args || {});
+        toolCalls.push({
+          type: 'tool-call',
+          toolCallId: tc.id || generateId(),
+          toolName: funcCall.name || tc.name,
+          input: args,
+        });
+      }
+    }
+
+    if (message?.reasoningContent && swePreset.supportsReasoning) {
+      reasoningContent = message.reasoningContent;
+    }
+
+    finishReason = mapFinishReason(choice?.finishReason);
+  }
+
+  // Emit reasoning content first (if present)
+  if (reasoningContent) {
+    controller.enqueue({ type: 'reasoning-start', id: reasoningId });
+    const chunkSize = 50;
+    for (let i = 0; i < reasoningContent.length; i += chunkSize) {
+      controller.enqueue({
+        type: 'reasoning-delta',
+        id: reasoningId,
+        delta: reasoningContent.slice(i, i + chunkSize),
+      });
+    }
+    controller.enqueue({ type: 'reasoning-end', id: reasoningId });
+  }
+
+  // Emit text content
+  if (text) {
+    controller.enqueue({ type: 'text-start', id: textId });
+    const chunkSize = 50;
+    for (let i = 0; i < text.length; i += chunkSize) {
+      controller.enqueue({
+        type: 'text-delta',
+        id: textId,
+        delta: text.slice(i, i + chunkSize),
+      });
+    }
+    controller.enqueue({ type: 'text-end', id: textId });
+  }
+
+  // Emit tool calls
+  for (const toolCall of toolCalls) {
+    controller.enqueue({
+      type: 'tool-input-start',
+      id: toolCall.toolCallId,
+      toolName: toolCall.toolName,
+    });
+    controller.enqueue({
+      type: 'tool-input-delta',
+      id: toolCall.toolCallId,
+      delta: toolCall.input,
+    });
+    controller.enqueue({
+      type: 'tool-input-end',
+      id: toolCall.toolCallId,
+    });
+    controller.enqueue(toolCall);
+  }
+
+  controller.enqueue({
+    type: 'finish',
+    finishReason,
+    usage: createUsage(extractUsageCounts(chatResult?.chatResponse?.usage)),
+  });
+  controller.close();
+}
+
+function isPrincipalAuth(settings: OCIProviderSettings): boolean {
+  return typeof settings.authProvider === 'string' &&
+    (PRINCIPAL_AUTH_PROVIDER_TYPES as readonly string[]).includes(settings.authProvider);
+}
+
+/**
+ * Build the auth provider for the configured auth type.
+ * Shared by every model class so chat, embedding and rerank calls authenticate identically.
+ * Principal-based auth types are built by buildPrincipalAuthProvider instead.
+ */
+function createAuthProvider(settings: OCIProviderSettings): common.AuthenticationDetailsProvider {
+  const authSetting = settings.authProvider;
+
+  // If a pre-built AuthenticationDetailsProvider instance is passed, use it directly.
+  if (authSetting && typeof authSetting === 'object') {
+    return authSetting;
+  }
+
+  const authType = (authSetting as string) || 'config-file';
+
+  switch (authType) {
+    case 'session-token':
+      return new common.SessionAuthDetailProvider(
+        undefined,
+        settings.configProfile || 'DEFAULT'
+      );
+    case 'env':
+      return createEnvAuthProvider();
+    case 'config-file':
+    default:
+      return new common.ConfigFileAuthenticationDetailsProvider(
+        undefined,
+        settings.configProfile || 'DEFAULT'
+      );
+  }
+}
+
+/**
+ * Build an API-key auth provider from OCI_TENANCY, OCI_USER, OCI_FINGERPRINT and
+ * OCI_PRIVATE_KEY, for environments without an ~/.oci/config file (e.g. CI containers).
+ * OCI_PRIVATE_KEY may hold the PEM itself or a path to the key file.
+ */
+function createEnvAuthProvider(): common.AuthenticationDetailsProvider {
+  const tenancy = process.env.OCI_TENANCY;
+  const user = process.env.OCI_USER;
+  const fingerprint = process.env.OCI_FINGERPRINT;
+  const privateKeySetting = process.env.OCI_PRIVATE_KEY;
+
+  const missing = [
+    ['OCI_TENANCY', tenancy],
+    ['OCI_USER', user],
+    ['OCI_FINGERPRINT', fingerprint],
+    ['OCI_PRIVATE_KEY', privateKeySetting],
+  ].filter(([, value]) => !value).map(([name]) => name);
+  if (missing.length > 0) {
+    throw new Error(`authProvider 'env' requires environment variables: ${missing.join(', ')}`);
+  }
+
+  return new common.SimpleAuthenticationDetailsProvider(
+    tenancy!,
+    user!,
+    fingerprint!,
+    loadPrivateKey(privateKeySetting!),
+    process.env.OCI_PRIVATE_KEY_PASSPHRASE || null
+  );
+}
+
+function loadPrivateKey(value: string): string {
+  if (value.includes('-----BEGIN')) {
+    // CI secrets are often stored with escaped newlines
+    return value.replace(/\\n/g, '\n');
+  }
+  const keyPath = value.startsWith('~') ? path.join(os.homedir(), value.slice(1)) : value;
+  try {
+    return fs.readFileSync(keyPath, 'utf-8');
+  } catch (error) {
+    throw new Error(`Could not read OCI_PRIVATE_KEY file "${keyPath}": ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Build an instance principal, resource principal or OKE workload identity provider.
+ * Instance principals fetch certificates from the instance metadata service, so this is async.
+ */
+async function buildPrincipalAuthProvider(
+  authType: OCIPrincipalAuthProviderType
+): Promise<common.AuthenticationDetailsProvider> {
+  switch (authType) {
+    case 'instance-principal':
+      return new common.InstancePrincipalsAuthenticationDetailsProviderBuilder().build();
+    case 'resource-principal':
+      return common.ResourcePrincipalAuthenticationDetailsProvider.builder();
+    case 'oke-workload-identity':
+      return new common.OkeWorkloadIdentityAuthenticationDetailsProvider
+        .OkeWorkloadIdentityAuthenticationDetailsProviderBuilder()
+        .build();
+  }
+}
+
+/**
+ * Read the region from a principal auth provider (instance metadata or
+ * OCI_RESOURCE_PRINCIPAL_REGION), falling back to the resource principal environment.
+ */
+function getPrincipalRegion(authProvider: common.AuthenticationDetailsProvider): common.Region | undefined {
+  const regionProvider = authProvider as Partial<common.RegionProvider>;
+  if (typeof regionProvider.getRegion === 'function') {
+    try {
+      const region = regionProvider.getRegion();
+      if (region) return region;
+    } catch {
+      // Metadata or environment did not provide a region — try the environment below
+    }
+  }
+  const envRegion = process.env.OCI_RESOURCE_PRINCIPAL_REGION;
+  return envRegion ? common.Region.fromRegionId(envRegion) : undefined;
+}
+
+/**
+ * Region an inference client calls: the resolved region, else the auth provider's own.
+ * Given only the HTTP client, the SDK no longer takes the auth provider's region itself.
+ */
+function resolveClientRegion(
+  settings: OCIProviderSettings,
+  authProvider: common.AuthenticationDetailsProvider,
+): common.Region | undefined {
+  return resolveRegion(settings, authProvider) ?? (authProvider as Partial<common.RegionProvider>).getRegion?.();
+}
+
+/**
+ * Create an inference client with auth and region resolved from settings.
+ */
+function createInferenceClient(
+  settings: OCIProviderSettings,
+  authProvider: common.AuthenticationDetailsProvider = createAuthProvider(settings),
+  region: common.Region | undefined = resolveClientRegion(settings, authProvider),
+): oci.GenerativeAiInferenceClient {
+  const client = new oci.GenerativeAiInferenceClient({
+    httpClient: new AbortableHttpClient(new common.DefaultRequestSigner(authProvider)),
+  });
+
+  if (region) {
+    client.region = region;
+  }
+  // Set after the region, which would otherwise reset it to the regional endpoint
+  if (settings.endpoint) {
+    client.endpoint = normalizeEndpoint(settings.endpoint);
+  }
+
+  return client;
+}
+
+/**
+ * Strip trailing slashes and the API version path, which the SDK appends itself.
+ */
+export function normalizeEndpoint(endpoint: string): string {
+  return endpoint.replace(/\/+$/, '').replace(/\/20231130$/, '');
+}
+
+/**
+ * AbortSignal of the OCI call currently being sent. The SDK has no per-request
+ * signal option, so it reaches the HTTP client through async context.
+ */
+const requestSignal = new AsyncLocalStorage<AbortSignal | undefined>();
+
+/**
+ * The SDK's HTTP client (signing, body handling and the default circuit
+ * breaker) with the caller's AbortSignal added as a fetch option, so an
+ * aborted call closes the connection instead of leaving it running.
+ */
+class AbortableHttpClient extends common.FetchHttpClient {
+  constructor(signer: common.RequestSigner) {
+    const circuitBreaker = common.utils.isCircuitBreakerSystemEnabled({})
+      ? new common.CircuitBreaker().circuit
+      : null;
+    super(signer, circuitBreaker, {
+      get signal() {
+        return requestSignal.getStore();
+      },
+    });
+  }
+
+  async send(...args: Parameters<common.HttpClient['send']>): Promise<Response> {
+    // With fetch options, the SDK passes on the circuit breaker's { response }
+    // wrapper and rejects error responses; unwrap both as it does without options
+    let result: any;
+    try {
+      result = await super.send(...args);
+    } catch (error: any) {
+      if (error?.response) {
+        return error.response;
+      }
+      throw error;
+    }
+    return result?.response ?? result;
+  }
+}
+
+/**
+ * Determine region: explicit setting > principal metadata/environment > config profile > OCI_REGION.
+ */
+function resolveRegion(
+  settings: OCIProviderSettings,
+  authProvider: common.AuthenticationDetailsProvider,
+): common.Region | undefined {
+  if (settings.region) {
+    return common.Region.fromRegionId(settings.region);
+  }
+
+  if (isPrincipalAuth(settings)) {
+    const principalRegion = getPrincipalRegion(authProvider);
+    if (principalRegion) {
+      return principalRegion;
+    }
+  } else if (settings.authProvider !== 'env') {
+    // Try to read region from OCI config profile
+    try {
+      const configFile = common.ConfigFileReader.parseDefault(settings.configProfile || 'DEFAULT');
+      const profileRegion = configFile.get('region');
+      if (profileRegion) {
+        return common.Region.fromRegionId(profileRegion);
+      }
+    } catch {
+      // Config file not available or profile not found — fall back to the environment
+    }
+  }
+
+  const envRegion = process.env.OCI_REGION;
+  return envRegion ? common.Region.fromRegionId(envRegion) : undefined;
+}
+
+/**
+ * Refresh a session token this close to expiry. OCI only refreshes tokens that are
+ * still valid, so waiting for a 401 would be too late.
+ */
+const SESSION_REFRESH_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Read the expiry time from a session token (a JWT with an `exp` claim).
+ */
+function getSessionTokenExpiry(token: string): Date | undefined {
+  const payload = token.split('.')[1];
+  if (!payload) return undefined;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    return typeof claims.exp === 'number' ? new Date(claims.exp * 1000) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function refreshSessionTokenIfExpiring(
+  authProvider: common.SessionAuthDetailProvider,
+  profile: string,
+): Promise<void> {
+  const expiry = getSessionTokenExpiry(await authProvider.getSecurityToken());
+  if (!expiry) return;
+
+  const remainingMs = expiry.getTime() - Date.now();
+  if (remainingMs > SESSION_REFRESH_WINDOW_MS) return;
+  if (remainingMs <= 0) {
+    throw new OCISessionExpiredError(profile);
+  }
+
+  try {
+    await authProvider.refreshSessionToken();
+  } catch (error) {
+    throw new OCISessionExpiredError(profile, { cause: error });
+  }
+
+  if (process.env.OCI_DEBUG) {
+    const refreshedExpiry = getSessionTokenExpiry(await authProvider.getSecurityToken());
+    console.error('[OCI Debug] Refreshed session token, new expiry:', refreshedExpiry?.toISOString());
+  }
+}
+
+/**
+ * Base model of each dedicated endpoint, looked up once per process. A failed
+ * lookup is kept for FAILED_LOOKUP_RETRY_MS, then tried again.
+ */
+const endpointBaseModels = new Map<string, { baseModel: Promise<string>; failedAt?: number }>();
+
+const FAILED_LOOKUP_RETRY_MS = 60_000;
+
+/**
+ * Find the model an endpoint hosts. Fine-tuned models resolve to the base model
+ * they were trained from, since that decides the request format.
+ */
+async function lookupEndpointBaseModel(
+  client: Pick<genai.GenerativeAiClient, 'getEndpoint' | 'getModel'>,
+  endpointId: string,
+): Promise<string> {
+  const { endpoint } = await client.getEndpoint({ endpointId });
+  let { model } = await client.getModel({ modelId: endpoint.modelId });
+  if (model.baseModelId) {
+    ({ model } = await client.getModel({ modelId: model.baseModelId }));
+  }
+  const name = model.displayName || model.id;
+  return name.includes('.') || !model.vendor ? name : `${model.vendor}.${name}`;
+}
+
+function resolveEndpointBaseModel(
+  getClient: () => Promise<genai.GenerativeAiClient>,
+  endpointId: string,
+): Promise<string> {
+  const cached = endpointBaseModels.get(endpointId);
+  if (cached && (cached.failedAt === undefined || Date.now() - cached.failedAt < FAILED_LOOKUP_RETRY_MS)) {
+    return cached.baseModel;
+  }
+  const entry: { baseModel: Promise<string>; failedAt?: number } = {
+    baseModel: getClient().then(client => lookupEndpointBaseModel(client, endpointId)),
+  };
+  entry.baseModel.catch(() => {
+    entry.failedAt = Date.now();
+  });
+  endpointBaseModels.set(endpointId, entry);
+  return entry.baseModel;
+}
+
+const OCID_PATTERN = /\bocid1\.([a-z0-9]+)\.[a-z0-9-]*\.[a-z0-9-]*\.[a-z0-9]+/gi;
+const REDACTED_HEADERS = /^(authorization|x-content-sha256|opc-obo-token|security-token|x-date|date)$/i;
+
+/**
+ * Mask OCIDs (keeping the resource type) and credential headers before anything is written to a cassette.
+ */
+function redactForCassette(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(OCID_PATTERN, 'ocid1.$1.oc1..redacted');
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactForCassette);
+  }
+  if (value && typeof value === 'object') {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry === undefined) continue;
+      redacted[key] = REDACTED_HEADERS.test(key) ? '[REDACTED]' : redactForCassette(entry);
+    }
+    return redacted;
+  }
+  return value;
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Cassette key: hash of the redacted chatDetails with sorted keys, so the same
+ * request matches regardless of compartment or property order.
+ */
+function getCassetteKey(chatDetails: oci.models.ChatDetails): string {
+  return crypto.createHash('sha256').update(canonicalJson(redactForCassette(chatDetails))).digest('hex').slice(0, 16);
+}
+
+type CassetteResponse =
+  | { type: 'json'; body: unknown }
+  | { type: 'sse'; chunks: string[] }
+  | { type: 'error'; error: { message: string; statusCode?: number; serviceCode?: string; opcRequestId?: string } };
 
-    const usage = v2Response?.usage;
-    promptTokens = usage?.promptTokens || usage?.inputTokens || 0;
-    completionTokens = usage?.completionTokens || usage?.outputTokens || 0;
-  } else if (modelFamily === 'cohere') {
-    const cohereResponse = chatResult?.chatResponse as any;
-    text = cohereResponse?.text || '';
+interface CassetteFile {
+  version: 1;
+  interactions: Record<string, { request: unknown; response: CassetteResponse }>;
+}
 
-    const cohereContent = cohereResponse?.content as any[] | undefined;
-    if (cohereContent && Array.isArray(cohereContent)) {
-      for (const part of cohereContent) {
-        if (part.type === 'THINKING' && part.thinking) {
-          reasoningContent = part.thinking;
-        }
-      }
+/**
+ * A cassette file on disk. Instances are shared per path so all models using
+ * the same file see each other's recordings.
+ */
+class Cassette {
+  private static readonly open = new Map<string, Cassette>();
+  private data?: CassetteFile;
+
+  private constructor(readonly filePath: string) {}
+
+  static forPath(filePath: string): Cassette {
+    const resolved = path.resolve(filePath);
+    let cassette = Cassette.open.get(resolved);
+    if (!cassette) {
+      cassette = new Cassette(resolved);
+      Cassette.open.set(resolved, cassette);
     }
+    return cassette;
+  }
 
-    const cohereToolCalls = cohereResponse?.toolCalls;
-    if (cohereToolCalls && Array.isArray(cohereToolCalls)) {
-      for (const toolCall of cohereToolCalls) {
-        toolCalls.push({
-          type: 'tool-call',
-          toolCallId: generateId(),
-          toolName: toolCall.name,
-          input: JSON.stringify(toolCall.parameters || {}),
-        });
-      }
+  replay(chatDetails: oci.models.ChatDetails): unknown {
+    const key = getCassetteKey(chatDetails);
+    const interaction = this.load().interactions[key];
+    if (!interaction) {
+      throw new Error(
+        `[OCI GenAI] No recorded response for request ${key} in cassette "${this.filePath}"\n` +
+        '  Hint: Run with recording mode "record" to capture it.'
+      );
     }
 
-    finishReason = toolCalls.length > 0 ? 'tool-calls' : mapFinishReason(cohereResponse?.finishReason);
-  } else {
-    // Generic format (Gemini, Llama, xAI, etc.)
-    const genericResponse = chatResult?.chatResponse as any;
-    const choice = genericResponse?.choices?.[0];
-    const message = choice?.message;
-
-    if (message?.content && Array.isArray(message.content)) {
-      for (const part of message.content) {
-        const partType = (part.type || '').toUpperCase();
-        if (partType === 'TEXT' && part.text) {
-          text += part.text;
-        } else if (partType === 'TOOL_CALL' || partType === 'FUNCTION_CALL' || part.functionCall) {
-          const toolPart = part as any;
-          const funcCall = toolPart.functionCall || toolPart.function || toolPart;
-          const args = typeof toolPart.arguments === 'string'
-            ? toolPart.arguments
-            : typeof funcCall.arguments === 'string'
-            ? funcCall.arguments
-            : JSON.stringify(toolPart.arguments || funcCall.arguments || funcCall.args || {});
-          toolCalls.push({
-            type: 'tool-call',
-            toolCallId: toolPart.id || funcCall.id || generateId(),
-            toolName: toolPart.name || funcCall.name,
-            input: args,
-          });
-        }
-      }
-    } else if (typeof message?.content === 'string') {
-      text = message.content;
-    } else if (message?.text) {
-      text = message.text;
+    const { response } = interaction;
+    if (response.type === 'error') {
+      throw Object.assign(new Error(response.error.message), response.error);
+    }
+    if (response.type === 'json') {
+      return response.body;
     }
+    const encoder = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of response.chunks) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+        controller.close();
+      },
+    });
+  }
 
-    const msgToolCalls = message?.tool_calls || message?.toolCalls || message?.function_call;
-    if (msgToolCalls) {
-      const calls = Array.isArray(msgToolCalls) ? msgToolCalls : [msgToolCalls];
-      for (const tc of calls) {
-        const funcCall = tc.function || tc;
-        const args = typeof funcCall.arguments === 'string'
-          ? funcCall.arguments
-          : JSON.stringify(funcCall.arguments || funcCall.args || {});
-        toolCalls.push({
-          type: 'tool-call',
-          toolCallId: tc.id || generateId(),
-          toolName: funcCall.name || tc.name,
-          input: args,
-        });
-      }
+  /**
+   * Save a response. SSE streams are recorded chunk by chunk as the caller
+   * reads them and written once the stream ends.
+   */
+  record<T>(chatDetails: oci.models.ChatDetails, response: T): T {
+    if (!response || typeof (response as any).getReader !== 'function') {
+      this.save(chatDetails, { type: 'json', body: response });
+      return response;
     }
 
-    if (message?.reasoningContent && swePreset.supportsReasoning) {
-      reasoningContent = message.reasoningContent;
+    const decoder = new TextDecoder();
+    const chunks: string[] = [];
+    const recorder = new TransformStream<Uint8Array, Uint8Array>({
+      transform: (chunk, controller) => {
+        chunks.push(decoder.decode(chunk, { stream: true }));
+        controller.enqueue(chunk);
+      },
+      flush: () => {
+        const tail = decoder.decode();
+        if (tail) chunks.push(tail);
+        this.save(chatDetails, { type: 'sse', chunks });
+      },
+    });
+    return (response as unknown as ReadableStream<Uint8Array>).pipeThrough(recorder) as unknown as T;
+  }
+
+  recordError(chatDetails: oci.models.ChatDetails, error: any): void {
+    this.save(chatDetails, {
+      type: 'error',
+      error: {
+        message: error?.message || String(error),
+        statusCode: error?.statusCode,
+        serviceCode: error?.serviceCode,
+        opcRequestId: error?.opcRequestId,
+      },
+    });
+  }
+
+  private save(chatDetails: oci.models.ChatDetails, response: CassetteResponse): void {
+    const data = this.load();
+    data.interactions[getCassetteKey(chatDetails)] = {
+      request: redactForCassette(chatDetails),
+      response: redactForCassette(response) as CassetteResponse,
+    };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2) + '\n');
+  }
+
+  private load(): CassetteFile {
+    if (!this.data) {
+      this.data = fs.existsSync(this.filePath)
+        ? JSON.parse(fs.readFileSync(this.filePath, 'utf-8'))
+        : { version: 1, interactions: {} };
     }
+    return this.data!;
+  }
+}
 
-    finishReason = mapFinishReason(choice?.finishReason);
-    const usageInfo = genericResponse?.usage;
-    promptTokens = usageInfo?.promptTokens || 0;
-    completionTokens = usageInfo?.completionTokens || 0;
+/**
+ * Resolve the OCI serving mode for a model: dedicated endpoint or on-demand model ID.
+ */
+function resolveServingMode(
+  modelId: string,
+  settings: OCIProviderSettings,
+  isDedicatedEndpoint: boolean = false,
+): oci.models.OnDemandServingMode | oci.models.DedicatedServingMode {
+  if (isDedicatedEndpoint) {
+    return { servingType: 'DEDICATED', endpointId: modelId };
   }
+  if (settings.servingMode === 'dedicated' && settings.endpointId) {
+    return { servingType: 'DEDICATED', endpointId: settings.endpointId };
+  }
+  return { servingType: 'ON_DEMAND', modelId };
+}
 
-  // Emit reasoning content first (if present)
-  if (reasoningContent) {
-    controller.enqueue({ type: 'reasoning-start', id: reasoningId });
-    const chunkSize = 50;
-    for (let i = 0; i < reasoningContent.length; i += chunkSize) {
-      controller.enqueue({
-        type: 'reasoning-delta',
-        id: reasoningId,
-        delta: reasoningContent.slice(i, i + chunkSize),
+/**
+ * Auth providers and inference clients shared by the models of one provider,
+ * keyed by auth profile, region and endpoint. Creating a model is free: the OCI
+ * config is only read when the first request needs credentials, and later
+ * models reuse the same signer and client objects. Session refreshes are
+ * shared per auth profile, so models using one session refresh it once.
+ */
+class ClientPool {
+  private static readonly instanceIds = new WeakMap<object, number>();
+  private static nextInstanceId = 0;
+
+  private readonly authProviders = new Map<string, Promise<common.AuthenticationDetailsProvider>>();
+  private readonly clients = new Map<string, oci.GenerativeAiInferenceClient>();
+  private readonly clientRegions = new WeakMap<oci.GenerativeAiInferenceClient, string>();
+  private readonly sessionRefreshes = new Map<string, Promise<void>>();
+
+  getAuthProvider(settings: OCIProviderSettings): Promise<common.AuthenticationDetailsProvider> {
+    const key = ClientPool.getAuthProfileKey(settings);
+    let authProvider = this.authProviders.get(key);
+    if (!authProvider) {
+      authProvider = isPrincipalAuth(settings)
+        ? buildPrincipalAuthProvider(settings.authProvider as OCIPrincipalAuthProviderType)
+        : new Promise(resolve => resolve(createAuthProvider(settings)));
+      this.authProviders.set(key, authProvider);
+      // Allow the next request to retry (e.g. metadata service briefly unavailable)
+      authProvider.catch(() => {
+        if (this.authProviders.get(key) === authProvider) {
+          this.authProviders.delete(key);
+        }
       });
     }
-    controller.enqueue({ type: 'reasoning-end', id: reasoningId });
+    return authProvider;
   }
 
-  // Emit text content
-  if (text) {
-    controller.enqueue({ type: 'text-start', id: textId });
-    const chunkSize = 50;
-    for (let i = 0; i < text.length; i += chunkSize) {
-      controller.enqueue({
-        type: 'text-delta',
-        id: textId,
-        delta: text.slice(i, i + chunkSize),
+  async getClient(settings: OCIProviderSettings): Promise<oci.GenerativeAiInferenceClient> {
+    const authProvider = await this.getAuthProvider(settings);
+    const key = [ClientPool.getAuthProfileKey(settings), settings.region ?? '', settings.endpoint ?? ''].join('|');
+    let client = this.clients.get(key);
+    if (!client) {
+      const region = resolveClientRegion(settings, authProvider);
+      client = createInferenceClient(settings, authProvider, region);
+      this.clients.set(key, client);
+      if (region) {
+        this.clientRegions.set(client, region.regionId);
+      }
+    }
+    return client;
+  }
+
+  /**
+   * Refresh the session token of a pooled auth provider if it is close to
+   * expiry. Concurrent callers for the same profile share one refresh.
+   */
+  refreshSession(settings: OCIProviderSettings, sessionAuth: common.SessionAuthDetailProvider): Promise<void> {
+    const key = ClientPool.getAuthProfileKey(settings);
+    let refresh = this.sessionRefreshes.get(key);
+    if (!refresh) {
+      refresh = refreshSessionTokenIfExpiring(sessionAuth, settings.configProfile || 'DEFAULT').finally(() => {
+        this.sessionRefreshes.delete(key);
       });
+      this.sessionRefreshes.set(key, refresh);
     }
-    controller.enqueue({ type: 'text-end', id: textId });
+    return refresh;
   }
 
-  // Emit tool calls
-  for (const toolCall of toolCalls) {
-    controller.enqueue({
-      type: 'tool-input-start',
-      id: toolCall.toolCallId,
-      toolName: toolCall.toolName,
-    });
-    controller.enqueue({
-      type: 'tool-input-delta',
-      id: toolCall.toolCallId,
-      delta: toolCall.input,
-    });
-    controller.enqueue({
-      type: 'tool-input-end',
-      id: toolCall.toolCallId,
-    });
-    controller.enqueue(toolCall);
+  /**
+   * Region ID a pooled client calls, when one could be resolved
+   */
+  getRegionId(client: oci.GenerativeAiInferenceClient): string | undefined {
+    return this.clientRegions.get(client);
   }
 
-  controller.enqueue({
-    type: 'finish',
-    finishReason,
-    usage: createUsage(promptTokens, completionTokens),
-  });
-  controller.close();
+  private static getAuthProfileKey(settings: OCIProviderSettings): string {
+    const { authProvider } = settings;
+    if (authProvider && typeof authProvider === 'object') {
+      let id = ClientPool.instanceIds.get(authProvider);
+      if (id === undefined) {
+        id = ClientPool.nextInstanceId++;
+        ClientPool.instanceIds.set(authProvider, id);
+      }
+      return `instance:${id}`;
+    }
+    const authType = authProvider || 'config-file';
+    return authType === 'config-file' || authType === 'session-token'
+      ? `${authType}:${settings.configProfile || 'DEFAULT'}`
+      : authType;
+  }
 }
 
-class OCIChatLanguageModelV2 implements LanguageModelV2 {
-  readonly specificationVersion = 'v2' as const;
-  readonly supportedUrls: Record<string, RegExp[]> = {};
-
-  private readonly client: oci.GenerativeAiInferenceClient;
-  private readonly modelFamily: ModelFamily;
-  private readonly swePreset: SWEPreset;
+/**
+ * Client handling shared by all OCI model classes. Clients for principal-based
+ * auth are created on the first request because their providers build asynchronously.
+ */
+abstract class OCIModelBase {
+  protected client?: oci.GenerativeAiInferenceClient;
+  private authProvider?: common.AuthenticationDetailsProvider;
 
   constructor(
     readonly modelId: string,
-    private readonly settings: OCIProviderSettings,
-    private readonly isDedicatedEndpoint: boolean = false,
-  ) {
-    const authProvider = OCIChatLanguageModelV2.createAuthProvider(settings);
-    this.client = new oci.GenerativeAiInferenceClient({
-      authenticationDetailsProvider: authProvider,
-    });
+    protected readonly settings: OCIProviderSettings,
+    private readonly clientPool: ClientPool = new ClientPool(),
+  ) {}
+
+  get provider(): string {
+    return 'oci-genai';
+  }
+
+  protected async getClient(regionId?: string): Promise<oci.GenerativeAiInferenceClient> {
+    await this.ensureFreshSession();
+    if (regionId) {
+      return this.clientPool.getClient({ ...this.settings, region: regionId });
+    }
+    if (!this.client) {
+      this.client = await this.clientPool.getClient(this.settings);
+    }
+    return this.client;
+  }
 
-    // Determine region: explicit setting > config profile auto-detect
-    const region = settings.region;
+  private async getAuthProvider(): Promise<common.AuthenticationDetailsProvider> {
+    if (!this.authProvider) {
+      this.authProvider = await this.clientPool.getAuthProvider(this.settings);
+    }
+    return this.authProvider;
+  }
+
+  /**
+   * Control-plane client (endpoints, models) with the same credentials and region as inference
+   */
+  protected async getControlPlaneClient(): Promise<genai.GenerativeAiClient> {
+    const authProvider = await this.getAuthProvider();
+    const client = new genai.GenerativeAiClient({ authenticationDetailsProvider: authProvider });
+    const region = resolveRegion(this.settings, authProvider);
     if (region) {
-      this.client.region = common.Region.fromRegionId(region);
-    } else if (!settings.authProvider || settings.authProvider === 'config-file' || settings.authProvider === 'session-token' || typeof settings.authProvider === 'object') {
-      // Try to read region from OCI config profile
-      try {
-        const configFile = common.ConfigFileReader.parseDefault(settings.configProfile || 'DEFAULT');
-        const profileRegion = configFile.get('region');
-        if (profileRegion) {
-          this.client.region = common.Region.fromRegionId(profileRegion);
-        }
-      } catch {
-        // Config file not available or profile not found — region will need to be set elsewhere
-      }
+      client.region = region;
     }
+    return client;
+  }
 
-    this.modelFamily = getModelFamily(modelId);
-    this.swePreset = getSWEPreset(modelId);
+  /**
+   * Configured regions offering this model's vendor, or none when requests
+   * should go to the single default region
+   */
+  protected getRoutingRegions(): string[] {
+    const { regions } = this.settings;
+    // A dedicated endpoint lives in one region
+    if (!regions || regions.length < 2 || (this.settings.servingMode === 'dedicated' && this.settings.endpointId)) {
+      return [];
+    }
+    const vendor = getModelInfo(this.modelId).vendor;
+    const offered = vendor === 'other' ? regions : regions.filter(region => REGIONS[region]?.providers.includes(vendor));
+    if (offered.length === 0) {
+      // The catalog may lag behind OCI; let the service decide
+      if (process.env.OCI_DEBUG) {
+        console.error(`[OCI Debug] No configured region lists ${vendor} models, trying all of them`);
+      }
+      return regions;
+    }
+    return offered;
   }
 
-  private static createAuthProvider(settings: OCIProviderSettings): common.AuthenticationDetailsProvider {
-    const authSetting = settings.authProvider;
+  /**
+   * Send a request with the provider's retry policy. SDK-level retries are
+   * disabled per request so the policy is applied exactly once. With several
+   * routing regions, each attempt tries them in the router's order and moves
+   * on when a region throttles or fails with a retryable error. The region
+   * that answered is passed to `onRegion`.
+   */
+  protected send<T>(
+    call: (client: oci.GenerativeAiInferenceClient, retryConfiguration: common.RetryConfiguration) => Promise<T>,
+    abortSignal?: AbortSignal,
+    onRegion?: (regionId: string) => void,
+  ): Promise<T> {
+    const callClient = (client: oci.GenerativeAiInferenceClient) => {
+      const promise = requestSignal.run(abortSignal, () => call(client, common.NoRetryConfigurationDetails));
+      // The request itself is aborted via requestSignal; this rejects right away
+      // even if the SDK is still signing or surfaces the abort as a different error
+      return abortSignal ? abortablePromise(promise, abortSignal) : promise;
+    };
 
-    // If a pre-built AuthenticationDetailsProvider instance is passed, use it directly.
-    // This supports async providers (InstancePrincipals, ResourcePrincipal, OKE Workload Identity)
-    // that must be built with async builders before passing to the provider.
-    if (authSetting && typeof authSetting === 'object') {
-      return authSetting;
+    const regions = this.getRoutingRegions();
+    if (regions.length === 0) {
+      return withRetry(async () => {
+        const client = await this.getClient();
+        const result = await callClient(client);
+        const regionId = this.clientPool.getRegionId(client) ?? this.settings.region;
+        if (regionId) {
+          onRegion?.(regionId);
+        }
+        return result;
+      }, this.settings.retry, abortSignal);
     }
 
-    const authType = (authSetting as string) || 'config-file';
+    const retry = resolveRetrySettings(this.settings.retry);
+    const router = RegionRouter.for(this.settings.regions!, this.settings.regionStrategy || 'primary-fallback');
+    return withRetry(async () => {
+      let lastError: unknown;
+      for (const region of router.order(regions)) {
+        const client = await this.getClient(region);
+        const startedAt = Date.now();
+        try {
+          const result = await callClient(client);
+          router.recordSuccess(region, Date.now() - startedAt);
+          onRegion?.(region);
+          return result;
+        } catch (error) {
+          if (abortSignal?.aborted || !isRetryableError(error, retry)) {
+            throw error;
+          }
+          router.recordFailure(region);
+          lastError = error;
+          if (process.env.OCI_DEBUG) {
+            console.error(`[OCI Debug] Region ${region} failed (${(error as any)?.statusCode ?? 'no status'}), trying the next region`);
+          }
+        }
+      }
+      throw lastError;
+    }, this.settings.retry, abortSignal);
+  }
 
-    switch (authType) {
-      case 'session-token':
-        return new common.SessionAuthDetailProvider(
-          undefined,
-          settings.configProfile || 'DEFAULT'
-        );
-      case 'config-file':
-      default:
-        return new common.ConfigFileAuthenticationDetailsProvider(
-          undefined,
-          settings.configProfile || 'DEFAULT'
-        );
+  /**
+   * Proactively refresh session-token auth before it expires. Concurrent
+   * requests of all models sharing the session share a single refresh.
+   */
+  private async ensureFreshSession(): Promise<void> {
+    if (this.settings.authProvider !== 'session-token') {
+      return;
     }
+    const sessionAuth = await this.getAuthProvider() as common.SessionAuthDetailProvider;
+    if (typeof sessionAuth.getSecurityToken !== 'function') {
+      return;
+    }
+    return this.clientPool.refreshSession(this.settings, sessionAuth);
   }
+}
 
-  get provider(): string {
-    return 'oci-genai';
+class OCIChatLanguageModelV2 extends OCIModelBase implements LanguageModelV2 {
+  readonly specificationVersion = 'v2' as const;
+  readonly supportedUrls: Record<string, RegExp[]> = {};
+
+  private modelFamily: ModelFamily;
+  private swePreset: SWEPreset;
+  /** The model the request is built for: the model ID, or the model a dedicated endpoint hosts */
+  private baseModelId: string;
+  private baseModelResolved = false;
+  private baseModelWarned = false;
+
+  constructor(
+    modelId: string,
+    settings: OCIProviderSettings,
+    private readonly isDedicatedEndpoint: boolean = false,
+    clientPool?: ClientPool,
+  ) {
+    super(modelId, settings, clientPool);
+    this.baseModelId = modelId;
+    this.modelFamily = getModelFamily(modelId);
+    this.swePreset = getSWEPreset(modelId, settings.presets);
   }
 
   async doGenerate(options: LanguageModelV2CallOptions) {
     const servingMode = this.getServingMode();
-    const chatRequest = this.buildChatRequest(options);
+    const warnings: LanguageModelV2CallWarning[] = [];
+    await this.applyBaseModel(servingMode, warnings);
+    const chatRequest = this.buildChatRequest(options, warnings);
 
     // Debug logging
     if (process.env.OCI_DEBUG) {
@@ -1168,19 +2682,15 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
     };
 
     let response;
+    let regionId: string | undefined;
     try {
       // Wire up abort signal for cancellation support
-      const chatPromise = this.client.chat({ chatDetails });
-      if (options.abortSignal) {
-        response = await abortablePromise(chatPromise, options.abortSignal);
-      } else {
-        response = await chatPromise;
-      }
+      response = await this.sendChat(chatDetails, options.abortSignal, (region) => (regionId = region));
     } catch (error) {
       if ((error as any)?.name === 'AbortError') {
         throw error;
       }
-      throw parseOCIError(error, this.modelId);
+      throw parseOCIError(error, this.modelId, this.settings, chatDetails);
     }
 
     if (!response || !('chatResult' in response)) {
@@ -1190,8 +2700,6 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
     const chatResult = response.chatResult;
     const content: LanguageModelV2Content[] = [];
     let finishReason: LanguageModelV2FinishReason;
-    let promptTokens = 0;
-    let completionTokens = 0;
 
     if (this.modelFamily === 'cohere-v2') {
       // Cohere V2 response format (CohereChatResponseV2)
@@ -1242,11 +2750,6 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
       // finishReason is at the response level in V2
       const hasToolCalls = message?.toolCalls && message.toolCalls.length > 0;
       finishReason = hasToolCalls ? 'tool-calls' : mapFinishReason(v2Response?.finishReason);
-
-      // Usage info
-      const usage = v2Response?.usage;
-      promptTokens = usage?.promptTokens || usage?.inputTokens || 0;
-      completionTokens = usage?.completionTokens || usage?.outputTokens || 0;
     } else if (this.modelFamily === 'cohere') {
       const cohereResponse = chatResult?.chatResponse as oci.models.CohereChatResponse | undefined;
       const text = cohereResponse?.text || '';
@@ -1345,19 +2848,6 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
       // Check if we have tool calls - if so, finishReason should be 'tool-calls'
       const hasToolCalls = content.some(c => c.type === 'tool-call');
       finishReason = hasToolCalls ? 'tool-calls' : mapFinishReason(choice?.finishReason);
-      const usageInfo = genericResponse?.usage;
-      promptTokens = usageInfo?.promptTokens || 0;
-      completionTokens = usageInfo?.completionTokens || 0;
-    }
-
-    // Extract reasoning tokens if available
-    let reasoningTokens: number | undefined;
-    if (this.modelFamily === 'cohere-v2') {
-      const v2Usage = (chatResult?.chatResponse as any)?.usage;
-      reasoningTokens = v2Usage?.reasoningTokens || v2Usage?.thinkingTokens;
-    } else if (this.modelFamily === 'generic') {
-      const genUsage = (chatResult?.chatResponse as any)?.usage;
-      reasoningTokens = genUsage?.reasoningTokens || genUsage?.reasoning_tokens;
     }
 
     // Capture response metadata for debugging and telemetry
@@ -1367,14 +2857,15 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
     return {
       content,
       finishReason,
-      usage: createUsage(promptTokens, completionTokens, reasoningTokens),
-      warnings: [],
+      usage: createUsage(extractUsageCounts(chatResponse?.usage)),
+      warnings,
       request: { body: chatRequest },
       response: {
         id: (response as any)?.opcRequestId || chatResponse?.id,
         timestamp: responseTimestamp,
         modelId: this.modelId,
       },
+      ...(regionId && { providerMetadata: { 'oci-genai': { region: regionId } } }),
     };
   }
 
@@ -1382,7 +2873,13 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
     stream: ReadableStream<LanguageModelV2StreamPart>;
   }> {
     const servingMode = this.getServingMode();
-    const chatRequest = this.buildStreamingChatRequest(options);
+    const warnings: LanguageModelV2CallWarning[] = [];
+    await this.applyBaseModel(servingMode, warnings);
+    const chatRequest = this.buildStreamingChatRequest(options, warnings);
+    const timeouts = resolveStreamTimeouts(
+      this.settings,
+      options.providerOptions?.['oci-genai'] as Record<string, unknown> | undefined
+    );
 
     // Debug logging
     if (process.env.OCI_DEBUG) {
@@ -1397,21 +2894,50 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
       chatRequest,
     };
 
-    const client = this.client;
+    // Aborted by the caller's signal or when the consumer cancels the stream
+    const abortSignal = options.abortSignal;
+    const cancellation = new AbortController();
+    const forwardAbort = () => cancellation.abort();
+    if (abortSignal?.aborted) {
+      cancellation.abort();
+    } else {
+      abortSignal?.addEventListener('abort', forwardAbort, { once: true });
+    }
+    let consumerCancelled = false;
+
+    // Retries stop once the response stream opens, so emitted parts are never replayed
+    let regionId: string | undefined;
+    const sendChat = () => this.sendChat(chatDetails, cancellation.signal, (region) => (regionId = region));
+    const settings = this.settings;
     const modelFamily = this.modelFamily;
     const swePreset = this.swePreset;
     const modelId = this.modelId;
-    const abortSignal = options.abortSignal;
+
+    // A timeout cancels the request like an abort, but is reported as OCIStreamTimeoutError
+    let timeoutError: OCIStreamTimeoutError | undefined;
+    let emittedOutput = false;
+    const watchdog = new StreamWatchdog(timeouts, (timeout, timeoutMs) => {
+      if (process.env.OCI_DEBUG) {
+        console.error(`[OCI Debug Stream] ${timeout} timeout after ${timeoutMs}ms, cancelling the request`);
+      }
+      timeoutError = new OCIStreamTimeoutError(timeout, timeoutMs, {
+        modelId,
+        requestBodyValues: chatDetails,
+        isRetryable: !emittedOutput,
+      });
+      cancellation.abort();
+    });
 
     const stream = new ReadableStream<LanguageModelV2StreamPart>({
-      async start(controller) {
+      async start(streamController) {
         const textId = generateId();
         const reasoningId = generateId();
+        const controller = trackOutput(streamController, () => (emittedOutput = true));
 
         try {
           controller.enqueue({
             type: 'stream-start',
-            warnings: [],
+            warnings,
           });
 
           // Emit response metadata
@@ -1421,21 +2947,20 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
             timestamp: new Date(),
           } as any);
 
-          const chatPromise = client.chat({ chatDetails });
-          const response = abortSignal
-            ? await abortablePromise(chatPromise, abortSignal)
-            : await chatPromise;
+          watchdog.start();
+          const response = await sendChat();
 
           // Check if we got a streaming response (ReadableStream) or a non-streaming response
           if (response && typeof (response as any).getReader === 'function') {
             // True streaming response - parse SSE events
             await handleSSEStream(
-              response as ReadableStream<Uint8Array>,
+              watchdog.monitor(response as ReadableStream<Uint8Array>),
               controller,
               modelFamily,
               swePreset,
               textId,
-              reasoningId
+              reasoningId,
+              cancellation.signal
             );
             return;
           }
@@ -1461,23 +2986,82 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
             reasoningId
           );
         } catch (error) {
-          const parsedError = parseOCIError(error, modelId);
-          controller.enqueue({ type: 'error', error: parsedError });
+          if (consumerCancelled) {
+            return;
+          }
+          const streamError = timeoutError ?? (cancellation.signal.aborted
+            ? abortError()
+            : parseOCIError(error, modelId, settings, chatDetails));
+          controller.enqueue({ type: 'error', error: streamError });
           controller.close();
+        } finally {
+          watchdog.stop();
+          abortSignal?.removeEventListener('abort', forwardAbort);
         }
       },
+      cancel() {
+        consumerCancelled = true;
+        cancellation.abort();
+      },
+    });
+
+    // The routed region is only known once the request went out; report it on the finish part
+    const withRegion = new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+      transform(part, controller) {
+        controller.enqueue(
+          part.type === 'finish' && regionId
+            ? { ...part, providerMetadata: { ...part.providerMetadata, 'oci-genai': { region: regionId } } }
+            : part
+        );
+      },
     });
 
-    return { stream };
+    return { stream: stream.pipeThrough(withRegion) };
+  }
+
+  /**
+   * Send a chat request, going through the cassette when recording is enabled.
+   */
+  private async sendChat(
+    chatDetails: oci.models.ChatDetails,
+    abortSignal?: AbortSignal,
+    onRegion?: (regionId: string) => void,
+  ): Promise<oci.responses.ChatResponse | ReadableStream<Uint8Array> | null> {
+    const recording = this.settings.recording;
+    const send = () => this.send(
+      (client, retryConfiguration) => client.chat({ chatDetails, retryConfiguration }),
+      abortSignal,
+      onRegion
+    );
+    if (!recording || recording.mode === 'passthrough') {
+      return send();
+    }
+
+    const cassette = Cassette.forPath(recording.cassette);
+    if (recording.mode === 'replay') {
+      return cassette.replay(chatDetails) as oci.responses.ChatResponse | ReadableStream<Uint8Array> | null;
+    }
+
+    let response;
+    try {
+      response = await send();
+    } catch (error) {
+      if ((error as any)?.name !== 'AbortError') {
+        cassette.recordError(chatDetails, error);
+      }
+      throw error;
+    }
+    return cassette.record(chatDetails, response);
   }
 
   /**
    * Build chat request with streaming enabled
    */
   private buildStreamingChatRequest(
-    options: LanguageModelV2CallOptions
+    options: LanguageModelV2CallOptions,
+    warnings: LanguageModelV2CallWarning[] = []
   ): oci.models.CohereChatRequest | oci.models.GenericChatRequest {
-    const baseRequest = this.buildChatRequest(options);
+    const baseRequest = this.buildChatRequest(options, warnings);
     // Add streaming flag and options
     return {
       ...baseRequest,
@@ -1489,25 +3073,121 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
   }
 
   private getServingMode(): oci.models.OnDemandServingMode | oci.models.DedicatedServingMode {
-    if (this.isDedicatedEndpoint) {
-      return { servingType: 'DEDICATED', endpointId: this.modelId };
+    return resolveServingMode(this.modelId, this.settings, this.isDedicatedEndpoint);
+  }
+
+  protected getRoutingRegions(): string[] {
+    return this.isDedicatedEndpoint ? [] : super.getRoutingRegions();
+  }
+
+  /**
+   * Pick the request format and presets of the model behind a dedicated endpoint.
+   * An endpoint OCID or custom model name says nothing about the API format, so
+   * unless the model ID is a catalog model or `baseModelId` is set, the endpoint
+   * is resolved through the control plane (once per endpoint). A failed lookup
+   * is warned about once per model and retried after a short delay.
+   */
+  private async applyBaseModel(
+    servingMode: oci.models.OnDemandServingMode | oci.models.DedicatedServingMode,
+    warnings: LanguageModelV2CallWarning[]
+  ): Promise<void> {
+    if (this.baseModelResolved || servingMode.servingType !== 'DEDICATED') {
+      return;
+    }
+
+    let baseModelId = this.settings.baseModelId;
+    if (!baseModelId) {
+      if (MODEL_CATALOG.some(model => model.id === this.modelId)) {
+        this.baseModelResolved = true;
+        return;
+      }
+      if (this.settings.recording?.mode === 'replay') {
+        // Replays must not reach OCI; the recorded request shows the format used
+        return;
+      }
+      const endpointId = (servingMode as oci.models.DedicatedServingMode).endpointId;
+      try {
+        baseModelId = await resolveEndpointBaseModel(() => this.getControlPlaneClient(), endpointId);
+      } catch (error) {
+        if (process.env.OCI_DEBUG) {
+          console.error('[OCI Debug] Could not resolve base model of endpoint:', endpointId, error);
+        }
+        if (!this.baseModelWarned) {
+          addWarning(warnings, {
+            type: 'other',
+            message:
+              `Could not look up the model behind dedicated endpoint ${endpointId}, so the request format was ` +
+              `inferred from "${this.modelId}". Set baseModelId to the hosted model (e.g. 'cohere.command-a-03-2025').`,
+          });
+          this.baseModelWarned = true;
+        }
+        return;
+      }
     }
-    if (this.settings.servingMode === 'dedicated' && this.settings.endpointId) {
-      return { servingType: 'DEDICATED', endpointId: this.settings.endpointId };
+
+    if (process.env.OCI_DEBUG) {
+      console.error('[OCI Debug] Dedicated endpoint base model:', baseModelId);
     }
-    return { servingType: 'ON_DEMAND', modelId: this.modelId };
+    this.baseModelId = baseModelId;
+    this.modelFamily = getModelFamily(baseModelId);
+    this.swePreset = getSWEPreset(baseModelId, this.settings.presets);
+    this.baseModelResolved = true;
   }
 
+  /**
+   * Build the family-specific chat request, collecting a warning for every
+   * caller setting that had to be dropped or rewritten along the way
+   */
   private buildChatRequest(
-    options: LanguageModelV2CallOptions
+    options: LanguageModelV2CallOptions,
+    warnings: LanguageModelV2CallWarning[] = []
   ): oci.models.CohereChatRequest | oci.models.GenericChatRequest {
+    const { deprecatedAt } = getModelInfo(this.baseModelId);
+    if (deprecatedAt) {
+      addWarning(warnings, {
+        type: 'other',
+        message: new Date(deprecatedAt).getTime() <= Date.now()
+          ? `${this.baseModelId} was deprecated by OCI on ${deprecatedAt}; migrate to a newer model`
+          : `${this.baseModelId} is scheduled for deprecation by OCI on ${deprecatedAt}`,
+      });
+    }
+    if (!this.swePreset.supportsTools && options.tools) {
+      for (const tool of options.tools) {
+        addWarning(warnings, {
+          type: 'unsupported-tool',
+          tool,
+          details: `${this.modelId} does not support tool calling`,
+        });
+      }
+    }
     if (this.modelFamily === 'cohere-v2') {
-      return this.buildCohereV2ChatRequest(options);
+      return this.buildCohereV2ChatRequest(options, warnings);
     }
     if (this.modelFamily === 'cohere') {
-      return this.buildCohereChatRequest(options);
+      return this.buildCohereChatRequest(options, warnings);
+    }
+    return this.buildGenericChatRequest(options, warnings);
+  }
+
+  /**
+   * Model preset for one call, with the sampling profile named by
+   * providerOptions['oci-genai'].preset applied on top
+   */
+  private getCallPreset(options: LanguageModelV2CallOptions): SWEPreset {
+    const providerOptions = options.providerOptions?.['oci-genai'] as Record<string, unknown> | undefined;
+    const profileName = providerOptions?.preset as string | undefined;
+    if (profileName === undefined) {
+      return this.swePreset;
+    }
+
+    const profiles = { ...PRESET_PROFILES, ...this.settings.presetProfiles };
+    const profile = profiles[profileName];
+    if (!profile) {
+      throw new Error(
+        `[OCI GenAI] Unknown preset "${profileName}". Available presets: ${Object.keys(profiles).join(', ')}.`
+      );
     }
-    return this.buildGenericChatRequest(options);
+    return { ...this.swePreset, ...definedValues(profile) };
   }
 
   /**
@@ -1517,17 +3197,38 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
     return value !== undefined ? value : defaultValue;
   }
 
-  private buildCohereChatRequest(options: LanguageModelV2CallOptions): oci.models.CohereChatRequest {
-    const { message, chatHistory, toolResults } = this.convertMessagesToCohereFormat(options.prompt);
+  private buildCohereChatRequest(
+    options: LanguageModelV2CallOptions,
+    warnings: LanguageModelV2CallWarning[] = []
+  ): oci.models.CohereChatRequest {
+    const preset = this.getCallPreset(options);
+    const { message, chatHistory, toolResults } = this.convertMessagesToCohereFormat(options.prompt, warnings);
 
     // Convert tools to Cohere format
-    const tools = this.swePreset.supportsTools && options.tools
+    const tools = preset.supportsTools && options.tools
       ? this.convertToolsToCohere(options.tools)
       : undefined;
 
     // Cohere requires isForceSingleStep=true when both message and toolResults are present
     const hasToolResults = toolResults && toolResults.length > 0;
 
+    // The legacy COHERE format has no toolChoice; the model always decides
+    if (tools && options.toolChoice && options.toolChoice.type !== 'auto') {
+      addWarning(warnings, {
+        type: 'unsupported-setting',
+        setting: 'toolChoice',
+        details: `toolChoice "${options.toolChoice.type}" is not supported by the COHERE API format and was ignored`,
+      });
+    }
+    if (options.stopSequences && options.stopSequences.length > 0) {
+      addWarning(warnings, {
+        type: 'unsupported-setting',
+        setting: 'stopSequences',
+        details: 'Stop sequences are not sent for the COHERE API format',
+      });
+    }
+    this.warnIgnoredResponseFormat(options, warnings);
+
     const providerOptions = options.providerOptions?.['oci-genai'] as Record<string, unknown> | undefined;
 
     const request: any = {
@@ -1535,10 +3236,10 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
       message,
       chatHistory,
       maxTokens: options.maxOutputTokens,
-      temperature: this.applyDefaults(options.temperature, this.swePreset.temperature),
-      topP: this.applyDefaults(options.topP, this.swePreset.topP),
-      frequencyPenalty: this.applyDefaults(options.frequencyPenalty, this.swePreset.frequencyPenalty),
-      presencePenalty: this.applyDefaults(options.presencePenalty, this.swePreset.presencePenalty),
+      temperature: this.applyDefaults(options.temperature, preset.temperature),
+      topP: this.applyDefaults(options.topP, preset.topP),
+      frequencyPenalty: this.applyDefaults(options.frequencyPenalty, preset.frequencyPenalty),
+      presencePenalty: this.applyDefaults(options.presencePenalty, preset.presencePenalty),
       ...(tools && { tools }),
       // Cohere SDK requires isForceSingleStep=true when both message and toolResults are present
       ...(hasToolResults && { toolResults, isForceSingleStep: true }),
@@ -1562,13 +3263,15 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
     }
 
     // Add thinking parameter for Cohere reasoning models
-    if (this.swePreset.supportsReasoning) {
+    if (preset.supportsReasoning) {
       const budgetTokens = providerOptions?.thinkingBudgetTokens as number | undefined;
 
       request.thinking = {
         type: 'ENABLED',
         ...(budgetTokens && { budgetTokens }),
       };
+    } else {
+      this.warnIgnoredReasoningOption(providerOptions, 'thinkingBudgetTokens', warnings);
     }
 
     return request;
@@ -1578,11 +3281,15 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
    * Build Cohere V2 API request (for Command A models)
    * V2 uses a messages array format similar to OpenAI/Generic, but with Cohere-specific types
    */
-  private buildCohereV2ChatRequest(options: LanguageModelV2CallOptions): any {
-    const messages = this.convertMessagesToCohereV2Format(options.prompt);
+  private buildCohereV2ChatRequest(
+    options: LanguageModelV2CallOptions,
+    warnings: LanguageModelV2CallWarning[] = []
+  ): any {
+    const preset = this.getCallPreset(options);
+    const messages = this.convertMessagesToCohereV2Format(options.prompt, warnings);
 
     // Convert tools to Cohere V2 format (type: FUNCTION, function: {...})
-    const tools = this.swePreset.supportsTools && options.tools
+    const tools = preset.supportsTools && options.tools
       ? this.convertToolsToCohereV2(options.tools)
       : undefined;
 
@@ -1597,6 +3304,13 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
       } else if (aiToolChoice?.type === 'required' || aiToolChoice?.type === 'tool') {
         // 'required' and specific tool requests both map to REQUIRED
         toolsChoice = 'REQUIRED';
+        if (aiToolChoice.type === 'tool') {
+          addWarning(warnings, {
+            type: 'unsupported-setting',
+            setting: 'toolChoice',
+            details: `Cohere V2 cannot force a specific tool; "${aiToolChoice.toolName}" was sent as REQUIRED (any tool)`,
+          });
+        }
       }
       // For 'auto' or undefined, don't set toolsChoice - let the model decide
       // This is important for multi-turn: step 1 may need tools, but step 2
@@ -1609,10 +3323,10 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
       apiFormat: 'COHEREV2',
       messages,
       maxTokens: options.maxOutputTokens ?? 4096, // Default to 4096 if not specified
-      temperature: this.applyDefaults(options.temperature, this.swePreset.temperature),
-      topP: this.applyDefaults(options.topP, this.swePreset.topP),
-      frequencyPenalty: this.applyDefaults(options.frequencyPenalty, this.swePreset.frequencyPenalty),
-      presencePenalty: this.applyDefaults(options.presencePenalty, this.swePreset.presencePenalty),
+      temperature: this.applyDefaults(options.temperature, preset.temperature),
+      topP: this.applyDefaults(options.topP, preset.topP),
+      frequencyPenalty: this.applyDefaults(options.frequencyPenalty, preset.frequencyPenalty),
+      presencePenalty: this.applyDefaults(options.presencePenalty, preset.presencePenalty),
       ...(tools && { tools }),
       ...(toolsChoice && { toolsChoice }),
       // Cohere V2 supports stopSequences
@@ -1637,15 +3351,19 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
     }
 
     // Add thinking parameter for Cohere reasoning models (Command A Reasoning)
-    if (this.swePreset.supportsReasoning) {
+    if (preset.supportsReasoning) {
       const budgetTokens = providerOptions?.thinkingBudgetTokens as number | undefined;
 
       request.thinking = {
         type: 'ENABLED',
         ...(budgetTokens && { budgetTokens }),
       };
+    } else {
+      this.warnIgnoredReasoningOption(providerOptions, 'thinkingBudgetTokens', warnings);
     }
 
+    this.warnIgnoredResponseFormat(options, warnings);
+
     if (process.env.OCI_DEBUG) {
       console.error('[OCI Debug] Cohere V2 request:', JSON.stringify(request, null, 2));
     }
@@ -1653,16 +3371,27 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
     return request;
   }
 
-  private buildGenericChatRequest(options: LanguageModelV2CallOptions): oci.models.GenericChatRequest {
-    const messages = this.convertMessagesToGenericFormat(options.prompt);
+  private buildGenericChatRequest(
+    options: LanguageModelV2CallOptions,
+    warnings: LanguageModelV2CallWarning[] = []
+  ): oci.models.GenericChatRequest {
+    const preset = this.getCallPreset(options);
+    const messages = this.convertMessagesToGenericFormat(options.prompt, warnings);
 
     // Build tools if provided and model supports them
-    const tools = this.swePreset.supportsTools && options.tools
+    const tools = preset.supportsTools && options.tools
       ? this.convertTools(options.tools)
       : undefined;
 
     // Check if model supports stop sequences (defaults to true if not specified)
-    const supportsStop = this.swePreset.supportsStopSequences !== false;
+    const supportsStop = preset.supportsStopSequences !== false;
+    if (!supportsStop && options.stopSequences && options.stopSequences.length > 0) {
+      addWarning(warnings, {
+        type: 'unsupported-setting',
+        setting: 'stopSequences',
+        details: `${this.modelId} does not support stop sequences on OCI`,
+      });
+    }
 
     const providerOptions = options.providerOptions?.['oci-genai'] as Record<string, unknown> | undefined;
 
@@ -1671,8 +3400,8 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
       apiFormat: 'GENERIC',
       messages,
       maxTokens: options.maxOutputTokens,
-      temperature: this.applyDefaults(options.temperature, this.swePreset.temperature),
-      topP: this.applyDefaults(options.topP, this.swePreset.topP),
+      temperature: this.applyDefaults(options.temperature, preset.temperature),
+      topP: this.applyDefaults(options.topP, preset.topP),
       // Only include stop sequences if model supports them and they're provided
       ...(supportsStop && options.stopSequences && options.stopSequences.length > 0 && { stop: options.stopSequences }),
       ...(tools && { tools }),
@@ -1687,9 +3416,19 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
     }
 
     // Only include penalty parameters for models that support them (e.g., not xAI/Grok)
-    if (this.swePreset.supportsPenalties) {
-      request.frequencyPenalty = this.applyDefaults(options.frequencyPenalty, this.swePreset.frequencyPenalty);
-      request.presencePenalty = this.applyDefaults(options.presencePenalty, this.swePreset.presencePenalty);
+    if (preset.supportsPenalties) {
+      request.frequencyPenalty = this.applyDefaults(options.frequencyPenalty, preset.frequencyPenalty);
+      request.presencePenalty = this.applyDefaults(options.presencePenalty, preset.presencePenalty);
+    } else {
+      for (const setting of ['frequencyPenalty', 'presencePenalty'] as const) {
+        if (options[setting] !== undefined) {
+          addWarning(warnings, {
+            type: 'unsupported-setting',
+            setting,
+            details: `${this.modelId} does not support ${setting} on OCI`,
+          });
+        }
+      }
     }
 
     // topK parameter
@@ -1719,16 +3458,50 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
 
     // Include reasoningEffort for models that support reasoning API parameter
     // Note: xAI Grok models use model variant selection (grok-4-1-fast-reasoning vs non-reasoning)
-    // instead of reasoningEffort parameter, so we skip it for xAI
-    if (this.swePreset.supportsReasoning && !this.modelId.startsWith('xai.')) {
+    // instead of reasoningEffort parameter, so the catalog marks them 'model-variant'
+    if (preset.reasoningControl === 'reasoning-effort') {
       const reasoningEffort = providerOptions?.reasoningEffort as string | undefined;
       // Default to MEDIUM if not specified
       request.reasoningEffort = reasoningEffort || 'MEDIUM';
+    } else {
+      this.warnIgnoredReasoningOption(providerOptions, 'reasoningEffort', warnings);
     }
 
     return request;
   }
 
+  /**
+   * Cohere requests don't carry responseFormat, so JSON mode is silently plain text
+   */
+  private warnIgnoredResponseFormat(
+    options: LanguageModelV2CallOptions,
+    warnings: LanguageModelV2CallWarning[]
+  ): void {
+    if (options.responseFormat?.type === 'json') {
+      addWarning(warnings, {
+        type: 'unsupported-setting',
+        setting: 'responseFormat',
+        details: 'JSON response format is not supported for Cohere models and was ignored',
+      });
+    }
+  }
+
+  /**
+   * Reasoning provider options are only sent to models that accept them
+   */
+  private warnIgnoredReasoningOption(
+    providerOptions: Record<string, unknown> | undefined,
+    option: 'reasoningEffort' | 'thinkingBudgetTokens',
+    warnings: LanguageModelV2CallWarning[]
+  ): void {
+    if (providerOptions?.[option] !== undefined) {
+      addWarning(warnings, {
+        type: 'other',
+        message: `providerOptions['oci-genai'].${option} was ignored: ${this.modelId} does not accept it`,
+      });
+    }
+  }
+
   /**
    * Map AI SDK toolChoice to OCI Generic format toolChoice.
    * OCI Generic supports: ToolChoiceAuto, ToolChoiceRequired, ToolChoiceNone, ToolChoiceFunction
@@ -1991,7 +3764,10 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
   /**
    * Convert messages to Cohere format with chat history and tool results
    */
-  private convertMessagesToCohereFormat(prompt: LanguageModelV2CallOptions['prompt']): {
+  private convertMessagesToCohereFormat(
+    prompt: LanguageModelV2CallOptions['prompt'],
+    warnings: LanguageModelV2CallWarning[] = []
+  ): {
     message: string;
     chatHistory: any[];
     toolResults: any[];
@@ -2011,6 +3787,7 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
       if (msg.role === 'system') {
         systemPreamble = msg.content;
       } else if (msg.role === 'user') {
+        this.warnDroppedUserParts(msg.content, 'COHERE', warnings);
         // Get text from user message
         const text = msg.content
           .filter((part): part is { type: 'text'; text: string } => part.type === 'text')
@@ -2101,7 +3878,10 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
    * Convert messages to Cohere V2 format (CohereMessageV2 array)
    * V2 uses a messages array with role (SYSTEM, USER, ASSISTANT, TOOL) and content array
    */
-  private convertMessagesToCohereV2Format(prompt: LanguageModelV2CallOptions['prompt']): any[] {
+  private convertMessagesToCohereV2Format(
+    prompt: LanguageModelV2CallOptions['prompt'],
+    warnings: LanguageModelV2CallWarning[] = []
+  ): any[] {
     if (!prompt || !Array.isArray(prompt)) {
       return [];
     }
@@ -2124,6 +3904,7 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
           }
           // Note: V2 also supports IMAGE content but we'll keep it simple for now
         }
+        this.warnDroppedUserParts(msg.content, 'COHEREV2', warnings);
         if (content.length > 0) {
           messages.push({
             role: 'USER',
@@ -2208,17 +3989,38 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
     return messages;
   }
 
-  private convertMessagesToGenericFormat(prompt: LanguageModelV2CallOptions['prompt']): oci.models.Message[] {
+  /**
+   * Cohere messages only carry text, so files and images in user turns never reach the model
+   */
+  private warnDroppedUserParts(
+    parts: Array<{ type: string }>,
+    apiFormat: 'COHERE' | 'COHEREV2',
+    warnings: LanguageModelV2CallWarning[]
+  ): void {
+    for (const part of parts) {
+      if (part.type !== 'text') {
+        addWarning(warnings, {
+          type: 'other',
+          message: `${part.type} content in user messages is not supported by the ${apiFormat} API format and was dropped`,
+        });
+      }
+    }
+  }
+
+  private convertMessagesToGenericFormat(
+    prompt: LanguageModelV2CallOptions['prompt'],
+    warnings: LanguageModelV2CallWarning[] = []
+  ): oci.models.Message[] {
     if (!prompt || !Array.isArray(prompt)) {
       return [];
     }
 
     // Check if this is an xAI model - they need special tool history handling
-    const isXAI = this.modelId.startsWith('xai.');
+    const isXAI = this.baseModelId.startsWith('xai.');
     // Check if this is a Llama model - they also reject TOOL role messages
-    const isLlama = this.modelId.startsWith('meta.llama');
+    const isLlama = this.baseModelId.startsWith('meta.llama');
     // Check if this is a Google model - they need FUNCTION_RESPONSE format for tool results
-    const isGoogle = this.modelId.startsWith('google.');
+    const isGoogle = this.baseModelId.startsWith('google.');
 
     const messages: oci.models.Message[] = [];
 
@@ -2257,6 +4059,11 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
                   data: fileData,
                 },
               } as any);
+            } else {
+              addWarning(warnings, {
+                type: 'other',
+                message: 'File content must be base64-encoded; binary and URL file parts were dropped',
+              });
             }
           }
         }
@@ -2334,6 +4141,10 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
         } else if (isGoogle && toolCalls.length > 1) {
           // Parallel tool calls: use text fallback instead of toolCalls array
           // OCI's Generic format doesn't support parallel function calls properly for Gemini
+          addWarning(warnings, {
+            type: 'other',
+            message: 'Parallel tool calls in the history were sent to Gemini as text because OCI does not support parallel function calls',
+          });
           const toolCallText = toolCallTexts.join('\n');
           if (content.length > 0 && content[0].type === oci.models.TextContent.type) {
             (content[0] as oci.models.TextContent).text += '\n' + toolCallText;
@@ -2419,6 +4230,10 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
             // Multiple results: OCI's Generic format doesn't properly support parallel
             // function responses for Gemini. Combine all tool results into a single
             // USER message with all results as text parts.
+            addWarning(warnings, {
+              type: 'other',
+              message: 'Parallel tool results were sent to Gemini as a single user message because OCI does not support parallel function responses',
+            });
             const combinedParts = googleToolResults.map(result => ({
               type: oci.models.TextContent.type,
               text: `[Tool result from "${result.toolName}" (${result.toolCallId}): ${result.text}]`,
@@ -2437,24 +4252,364 @@ class OCIChatLanguageModelV2 implements LanguageModelV2 {
   }
 }
 
+/**
+ * OCI caps the number of inputs accepted by a single embedText request.
+ */
+const MAX_EMBED_INPUTS_PER_REQUEST = 96;
+
+const EMBED_INPUT_TYPES = ['SEARCH_DOCUMENT', 'SEARCH_QUERY', 'CLASSIFICATION', 'CLUSTERING'] as const;
+const EMBED_TRUNCATE_MODES = ['NONE', 'START', 'END'] as const;
+
+type OCIEmbedInputType = typeof EMBED_INPUT_TYPES[number];
+type OCIEmbedTruncate = typeof EMBED_TRUNCATE_MODES[number];
+
+/**
+ * Text embedding model backed by OCI embedText (cohere.embed-* models).
+ * Inputs beyond the per-request limit are split into batches transparently.
+ */
+class OCIEmbeddingModelV2 extends OCIModelBase implements EmbeddingModelV2<string> {
+  readonly specificationVersion = 'v2' as const;
+  readonly maxEmbeddingsPerCall = Infinity;
+  readonly supportsParallelCalls = true;
+
+  async doEmbed(options: Parameters<EmbeddingModelV2<string>['doEmbed']>[0]) {
+    const providerOptions = options.providerOptions?.['oci-genai'] as Record<string, unknown> | undefined;
+    const inputType = this.parseOption(providerOptions?.inputType, EMBED_INPUT_TYPES, 'inputType');
+    const truncate = this.parseOption(providerOptions?.truncate, EMBED_TRUNCATE_MODES, 'truncate');
+
+    const embeddings: number[][] = [];
+    let tokens = 0;
+
+    for (let i = 0; i < options.values.length; i += MAX_EMBED_INPUTS_PER_REQUEST) {
+      const inputs = options.values.slice(i, i + MAX_EMBED_INPUTS_PER_REQUEST);
+      const embedTextDetails: oci.models.EmbedTextDetails = {
+        compartmentId: this.settings.compartmentId || process.env.OCI_COMPARTMENT_ID || '',
+        servingMode: resolveServingMode(this.modelId, this.settings),
+        inputs,
+        ...(inputType && { inputType: inputType as oci.models.EmbedTextDetails.InputType }),
+        ...(truncate && { truncate: truncate as oci.models.EmbedTextDetails.Truncate }),
+      };
+
+      if (process.env.OCI_DEBUG) {
+        console.error('[OCI Debug Embed] Model:', this.modelId, 'Batch size:', inputs.length);
+      }
+
+      let response;
+      try {
+        response = await this.send(
+          (client, retryConfiguration) => client.embedText({ embedTextDetails, retryConfiguration }),
+          options.abortSignal
+        );
+      } catch (error) {
+        if ((error as any)?.name === 'AbortError') {
+          throw error;
+        }
+        throw parseOCIError(error, this.modelId, this.settings, embedTextDetails);
+      }
+
+      const result = response?.embedTextResult;
+      if (!result || !Array.isArray(result.embeddings) || result.embeddings.length !== inputs.length) {
+        throw new Error(
+          `[OCI GenAI] Expected ${inputs.length} embeddings from model "${this.modelId}", ` +
+          `got ${result?.embeddings?.length ?? 0}`
+        );
+      }
+
+      embeddings.push(...result.embeddings);
+      tokens += result.usage?.promptTokens ?? result.usage?.totalTokens ?? 0;
+    }
+
+    return {
+      embeddings,
+      usage: { tokens },
+    };
+  }
+
+  private parseOption<T extends string>(
+    value: unknown,
+    allowed: readonly T[],
+    name: string,
+  ): T | undefined {
+    if (value === undefined) return undefined;
+    const normalized = String(value).toUpperCase() as T;
+    if (!allowed.includes(normalized)) {
+      throw new Error(
+        `[OCI GenAI] Invalid ${name} "${value}" for embedding model "${this.modelId}". ` +
+        `Expected one of: ${allowed.join(', ')}`
+      );
+    }
+    return normalized;
+  }
+}
+
+export interface OCIRerankOptions {
+  /** Search query the documents are scored against */
+  query: string;
+  /** Documents to rerank */
+  documents: string[];
+  /** Number of most relevant documents to return (defaults to all) */
+  topN?: number;
+  abortSignal?: AbortSignal;
+  /** `maxChunksPerDocument` and `maxTokensPerDocument` under the `oci-genai` key */
+  providerOptions?: Record<string, Record<string, unknown>>;
+}
+
+export interface OCIRerankResult {
+  /** Documents ordered by descending relevance; `index` refers to the input array */
+  ranking: Array<{ index: number; relevanceScore: number }>;
+  response: {
+    id?: string;
+    modelId: string;
+  };
+}
+
+export interface OCIRerankingModel {
+  readonly provider: string;
+  readonly modelId: string;
+  doRerank(options: OCIRerankOptions): Promise<OCIRerankResult>;
+}
+
+/**
+ * Reranking model backed by OCI rerankText (cohere.rerank-* models).
+ */
+class OCIRerankModel extends OCIModelBase implements OCIRerankingModel {
+
+  async doRerank(options: OCIRerankOptions): Promise<OCIRerankResult> {
+    if (options.documents.length === 0) {
+      return { ranking: [], response: { modelId: this.modelId } };
+    }
+
+    const providerOptions = options.providerOptions?.['oci-genai'];
+    const maxChunksPerDocument = providerOptions?.maxChunksPerDocument as number | undefined;
+    const maxTokensPerDocument = providerOptions?.maxTokensPerDocument as number | undefined;
+
+    const rerankTextDetails: oci.models.RerankTextDetails = {
+      compartmentId: this.settings.compartmentId || process.env.OCI_COMPARTMENT_ID || '',
+      servingMode: resolveServingMode(this.modelId, this.settings),
+      input: options.query,
+      documents: options.documents,
+      ...(options.topN !== undefined && { topN: options.topN }),
+      ...(maxChunksPerDocument !== undefined && { maxChunksPerDocument }),
+      ...(maxTokensPerDocument !== undefined && { maxTokensPerDocument }),
+    };
+
+    if (process.env.OCI_DEBUG) {
+      console.error('[OCI Debug Rerank] Model:', this.modelId, 'Documents:', options.documents.length);
+    }
+
+    let response;
+    try {
+      response = await this.send(
+        (client, retryConfiguration) => client.rerankText({ rerankTextDetails, retryConfiguration }),
+        options.abortSignal
+      );
+    } catch (error) {
+      if ((error as any)?.name === 'AbortError') {
+        throw error;
+      }
+      throw parseOCIError(error, this.modelId, this.settings, rerankTextDetails);
+    }
+
+    const ranks = response?.rerankTextResult?.documentRanks || [];
+    const ranking = ranks
+      .filter(rank => typeof rank.index === 'number')
+      .map(rank => ({ index: rank.index!, relevanceScore: rank.relevanceScore ?? 0 }))
+      .sort((a, b) => b.relevanceScore - a.relevanceScore);
+
+    return {
+      ranking,
+      response: {
+        id: response?.opcRequestId || response?.rerankTextResult?.id,
+        modelId: this.modelId,
+      },
+    };
+  }
+}
+
+const COMPARTMENT_OCID_PATTERN = /^ocid1\.(compartment|tenancy)\.oc\d+\.[a-z0-9-]*\.[a-z0-9]+$/i;
+const ENDPOINT_OCID_PATTERN = /^ocid1\.generativeaiendpoint\.oc\d+\.[a-z0-9-]*\.[a-z0-9]+$/i;
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+function validatePreset(key: string, preset: OCIModelPreset): void {
+  for (const field of PRESET_NUMBER_FIELDS) {
+    const value = preset[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+      throw new Error(`Invalid preset "${key}": ${field} must be a number, got ${JSON.stringify(value)}.`);
+    }
+  }
+  for (const field of PRESET_BOOLEAN_FIELDS) {
+    const value = preset[field];
+    if (value !== undefined && typeof value !== 'boolean') {
+      throw new Error(`Invalid preset "${key}": ${field} must be true or false, got ${JSON.stringify(value)}.`);
+    }
+  }
+  if (preset.reasoningControl !== undefined && !REASONING_CONTROLS.includes(preset.reasoningControl)) {
+    throw new Error(
+      `Invalid preset "${key}": reasoningControl must be one of ${REASONING_CONTROLS.join(', ')}.`
+    );
+  }
+}
+
+/**
+ * Validate provider settings up front so misconfiguration surfaces when the
+ * provider is created rather than as an opaque OCI error on the first request.
+ */
+function validateSettings(settings: OCIProviderSettings): void {
+  const { authProvider, compartmentId, region, servingMode } = settings;
+
+  const isProviderInstance = typeof authProvider === 'object' && authProvider !== null;
+  if (authProvider !== undefined && !isProviderInstance && !AUTH_PROVIDER_TYPES.includes(authProvider as OCIAuthProviderType)) {
+    throw new Error(
+      `Invalid authProvider "${String(authProvider)}". ` +
+      `Expected one of: ${AUTH_PROVIDER_TYPES.join(', ')}, or an AuthenticationDetailsProvider instance.`
+    );
+  }
+
+  if (compartmentId && !COMPARTMENT_OCID_PATTERN.test(compartmentId)) {
+    throw new Error(
+      `Invalid compartmentId "${compartmentId}". ` +
+      'Expected a compartment or tenancy OCID (ocid1.compartment.oc1..xxxxx or ocid1.tenancy.oc1..xxxxx).'
+    );
+  }
+
+  if (region && !REGIONS[region]) {
+    throw new Error(
+      `Unsupported region "${region}" for OCI GenAI. ` +
+      `Supported regions: ${Object.keys(REGIONS).join(', ')}`
+    );
+  }
+
+  if (settings.regions !== undefined) {
+    if (!Array.isArray(settings.regions) || settings.regions.length === 0) {
+      throw new Error('Invalid regions. Expected a non-empty list of region IDs, e.g. [\'us-chicago-1\', \'us-ashburn-1\'].');
+    }
+    const unsupported = settings.regions.filter(regionId => !REGIONS[regionId]);
+    if (unsupported.length > 0) {
+      throw new Error(
+        `Unsupported region "${unsupported[0]}" in regions for OCI GenAI. ` +
+        `Supported regions: ${Object.keys(REGIONS).join(', ')}`
+      );
+    }
+    // Every region would be sent to the same overridden URL, so failover could never change hosts
+    if (settings.regions.length > 1 && settings.endpoint !== undefined) {
+      throw new Error(
+        `regions cannot be combined with endpoint "${settings.endpoint}": every region would use that URL. ` +
+        'Remove endpoint (or baseURL/OCI_GENAI_BASE_URL) to route across regions, or list a single region.'
+      );
+    }
+  }
+
+  if (settings.regionStrategy !== undefined && !REGION_STRATEGIES.includes(settings.regionStrategy)) {
+    throw new Error(
+      `Invalid regionStrategy "${settings.regionStrategy}". Expected one of: ${REGION_STRATEGIES.join(', ')}.`
+    );
+  }
+
+  if (servingMode !== undefined && servingMode !== 'on-demand' && servingMode !== 'dedicated') {
+    throw new Error(`Invalid servingMode "${servingMode}". Expected 'on-demand' or 'dedicated'.`);
+  }
+
+  if (settings.endpoint !== undefined && !isHttpUrl(settings.endpoint)) {
+    throw new Error(`Invalid endpoint "${settings.endpoint}". Expected an http(s) URL such as https://genai.example.com.`);
+  }
+
+  if (settings.recording) {
+    const { mode, cassette } = settings.recording;
+    if (!RECORDING_MODES.includes(mode)) {
+      throw new Error(`Invalid recording.mode "${mode}". Expected one of: ${RECORDING_MODES.join(', ')}.`);
+    }
+    if (mode !== 'passthrough' && !cassette) {
+      throw new Error(`recording.cassette is required for recording mode "${mode}".`);
+    }
+  }
+
+  for (const [key, preset] of Object.entries({ ...settings.presets, ...settings.presetProfiles })) {
+    validatePreset(key, preset);
+  }
+
+  const reservedProfile = Object.keys(settings.presetProfiles || {}).find(name => hasOwn(PRESET_PROFILES, name));
+  if (reservedProfile !== undefined) {
+    throw new Error(
+      `Invalid presetProfiles["${reservedProfile}"]: "${reservedProfile}" is a built-in profile. ` +
+      `Choose another name; the built-in profiles are ${Object.keys(PRESET_PROFILES).join(', ')}.`
+    );
+  }
+
+  for (const [alias, endpoint] of Object.entries(settings.endpoints || {})) {
+    const endpointId = typeof endpoint === 'string' ? endpoint : endpoint?.endpointId;
+    if (typeof endpointId !== 'string' || !ENDPOINT_OCID_PATTERN.test(endpointId)) {
+      throw new Error(
+        `Invalid endpoints["${alias}"] "${String(endpointId)}". ` +
+        'Expected a dedicated endpoint OCID (ocid1.generativeaiendpoint.oc1.<region>.xxxxx).'
+      );
+    }
+  }
+
+  if (settings.modelCache) {
+    const { ttlMs } = settings.modelCache;
+    if (ttlMs !== undefined && !(ttlMs >= 0)) {
+      throw new Error(`Invalid modelCache.ttlMs "${ttlMs}". Expected a non-negative number of milliseconds.`);
+    }
+  }
+
+  for (const name of STREAM_TIMEOUT_SETTINGS) {
+    const value = settings[name];
+    if (value !== undefined && !isValidTimeoutMs(value)) {
+      throw new Error(`Invalid ${name} "${value}". Expected a number of milliseconds between 0 and ${MAX_TIMEOUT_MS}.`);
+    }
+  }
+
+  if (settings.retry) {
+    const { maxAttempts, baseDelayMs, maxDelayMs, jitter } = settings.retry;
+    if (maxAttempts !== undefined && (!Number.isInteger(maxAttempts) || maxAttempts < 1)) {
+      throw new Error(`Invalid retry.maxAttempts "${maxAttempts}". Expected an integer of at least 1.`);
+    }
+    for (const [name, value] of Object.entries({ baseDelayMs, maxDelayMs })) {
+      if (value !== undefined && !(value >= 0)) {
+        throw new Error(`Invalid retry.${name} "${value}". Expected a non-negative number of milliseconds.`);
+      }
+    }
+    if (jitter !== undefined && !(jitter >= 0 && jitter <= 1)) {
+      throw new Error(`Invalid retry.jitter "${jitter}". Expected a fraction between 0 and 1.`);
+    }
+  }
+}
+
 export class OCIProvider implements ProviderV2 {
   private readonly settings: OCIProviderSettings;
+  private readonly clientPool = new ClientPool();
 
   constructor(settings: OCIProviderSettings = {}) {
     this.settings = {
+      ...settings,
       compartmentId: settings.compartmentId || process.env.OCI_COMPARTMENT_ID,
-      region: settings.region || process.env.OCI_REGION,
+      region: settings.region || settings.regions?.[0] || process.env.OCI_REGION,
       configProfile: settings.configProfile || 'DEFAULT',
       servingMode: settings.servingMode || 'on-demand',
       endpointId: settings.endpointId || process.env.OCI_GENAI_ENDPOINT_ID,
+      endpoint: settings.endpoint || settings.baseURL || process.env.OCI_GENAI_BASE_URL,
     };
+    validateSettings(this.settings);
   }
 
   languageModel(modelId: string): LanguageModelV2 {
-    const compartmentId = this.settings.compartmentId;
-    if (!compartmentId) {
-      throw new Error(
-        'Missing compartment ID. Set OCI_COMPARTMENT_ID env var or pass compartmentId in options.'
+    this.assertCompartmentId();
+
+    const dedicatedEndpoint = this.resolveDedicatedEndpoint(modelId);
+    if (dedicatedEndpoint) {
+      return new OCIChatLanguageModelV2(
+        dedicatedEndpoint.endpointId,
+        { ...this.settings, baseModelId: dedicatedEndpoint.baseModelId },
+        true,
+        this.clientPool
       );
     }
 
@@ -2466,20 +4621,107 @@ export class OCIProvider implements ProviderV2 {
       );
     }
 
-    return new OCIChatLanguageModelV2(modelId, this.settings, false);
+    return new OCIChatLanguageModelV2(modelId, this.settings, false, this.clientPool);
+  }
+
+  /**
+   * Map `endpoint:<OCID>` and `dedicated/<alias>` model IDs to their endpoint
+   */
+  private resolveDedicatedEndpoint(modelId: string): OCIDedicatedEndpoint | undefined {
+    if (modelId.startsWith(ENDPOINT_MODEL_PREFIX)) {
+      const endpointId = modelId.slice(ENDPOINT_MODEL_PREFIX.length);
+      if (!ENDPOINT_OCID_PATTERN.test(endpointId)) {
+        throw new Error(
+          `[OCI GenAI] Invalid model ID "${modelId}". ` +
+          `Expected ${ENDPOINT_MODEL_PREFIX}ocid1.generativeaiendpoint.<realm>.<region>.<id>.`
+        );
+      }
+      return { endpointId };
+    }
+
+    if (modelId.startsWith(DEDICATED_MODEL_PREFIX)) {
+      const alias = modelId.slice(DEDICATED_MODEL_PREFIX.length);
+      const endpoints = this.settings.endpoints || {};
+      // Own properties only, so aliases like "constructor" don't resolve to Object.prototype
+      const endpoint = hasOwn(endpoints, alias) ? endpoints[alias] : undefined;
+      if (!endpoint) {
+        const aliases = Object.keys(endpoints);
+        throw new Error(
+          `[OCI GenAI] Unknown dedicated endpoint "${alias}". ` +
+          (aliases.length > 0
+            ? `Configured endpoints: ${aliases.join(', ')}.`
+            : `Add it to the provider's endpoints setting, e.g. endpoints: { '${alias}': 'ocid1.generativeaiendpoint...' }.`)
+        );
+      }
+      return typeof endpoint === 'string' ? { endpointId: endpoint } : endpoint;
+    }
+
+    return undefined;
   }
 
-  textEmbeddingModel(_modelId: string): never {
-    throw new Error('Text embedding models are not supported by OCI GenAI provider');
+  textEmbeddingModel(modelId: string): EmbeddingModelV2<string> {
+    this.assertCompartmentId();
+    return new OCIEmbeddingModelV2(modelId, this.getNonChatSettings(modelId), this.clientPool);
+  }
+
+  rerankingModel(modelId: string): OCIRerankingModel {
+    this.assertCompartmentId();
+    return new OCIRerankModel(modelId, this.getNonChatSettings(modelId), this.clientPool);
+  }
+
+  /**
+   * Settings for embedding and reranking models. The provider's `servingMode`
+   * and `endpointId` name a chat endpoint, so these models run on-demand unless
+   * their own model ID names a dedicated endpoint.
+   */
+  private getNonChatSettings(modelId: string): OCIProviderSettings {
+    const dedicatedEndpoint = this.resolveDedicatedEndpoint(modelId);
+    return dedicatedEndpoint
+      ? { ...this.settings, servingMode: 'dedicated', endpointId: dedicatedEndpoint.endpointId }
+      : { ...this.settings, servingMode: 'on-demand', endpointId: undefined };
   }
 
   imageModel(_modelId: string): never {
     throw new Error('Image models are not supported by OCI GenAI provider');
   }
 
+  /**
+   * List models available to the compartment in the provider's region via the
+   * control-plane listModels API, using the on-disk model cache
+   */
+  async listModels(options: OCIModelDiscoveryOptions = {}): Promise<OCIDiscoveredModel[]> {
+    this.assertCompartmentId();
+
+    const authProvider = await this.clientPool.getAuthProvider(this.settings);
+    const region = resolveRegion(this.settings, authProvider);
+    if (!region) {
+      throw new Error(
+        '[OCI GenAI] Cannot list models without a region. Set region in options, OCI_REGION, or the config profile.'
+      );
+    }
+
+    const client = new genai.GenerativeAiClient({ authenticationDetailsProvider: authProvider });
+    client.region = region;
+
+    return discoverModels(client, {
+      ...options,
+      compartmentId: this.settings.compartmentId!,
+      region: region.regionId,
+      cache: this.settings.modelCache,
+    });
+  }
+
   getSettings(): Readonly<OCIProviderSettings> {
     return { ...this.settings };
   }
+
+  private assertCompartmentId(): void {
+    if (!this.settings.compartmentId) {
+      throw new Error(
+        'Missing compartment ID. Set OCI_COMPARTMENT_ID env var or pass compartmentId in options.'
+      );
+    }
+  }
 }
 
 export function createOCI(settings: OCIProviderSettings = {}): OCIProvider {
@@ -2496,3 +4738,24 @@ export default function createOCIProvider(options?: OCIProviderSettings) {
 }
 
 export { createOCIProvider };
+
+export { MODEL_CATALOG, getModelInfo, getModelsForRegion } from './data/models.js';
+export type {
+  ModelInfo,
+  ModelVendor,
+  ModelApiFormat,
+  ModelServingMode,
+  ReasoningControl,
+} from './data/models.js';
+
+export { SSEDecoderStream } from './sse.js';
+export type { ServerSentEvent, SSEDecoderOptions } from './sse.js';
+
+export { discoverModels } from './discovery.js';
+export type {
+  DiscoverModelsOptions,
+  OCIDiscoveredModel,
+  OCIModelCacheSettings,
+  OCIModelCapability,
+  OCIModelDiscoveryOptions,
+} from './discovery.js';
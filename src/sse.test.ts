@@ -0,0 +1,92 @@
+/**
+ * Event stream decoder tests against the WHATWG interpretation rules
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { SSEDecoderStream, type ServerSentEvent } from './sse.js';
+
+async function decode(chunks: Array<string | Uint8Array>, onComment?: (comment: string) => void): Promise<ServerSentEvent[]> {
+  const source = new ReadableStream<string | Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      controller.close();
+    },
+  });
+  const events: ServerSentEvent[] = [];
+  const reader = source.pipeThrough(new SSEDecoderStream({ onComment })).getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return events;
+    events.push(value);
+  }
+}
+
+describe('SSE Decoder', () => {
+  it('should decode data lines with and without the space after the colon', async () => {
+    expect(await decode(['data: {"a":1}\n\ndata:{"b":2}\n\n'])).toEqual([
+      { event: 'message', data: '{"a":1}' },
+      { event: 'message', data: '{"b":2}' },
+    ]);
+  });
+
+  it('should join multi-line data with newlines', async () => {
+    expect(await decode(['data: first\ndata:\ndata:  indented\n\n'])).toEqual([
+      { event: 'message', data: 'first\n\n indented' },
+    ]);
+  });
+
+  it('should accept CRLF, CR and LF line endings, including CRLF split across chunks', async () => {
+    const events = await decode(['data: a\r\n\r', '\ndata: b\r\rdata: c\r', '\n', '\r\n']);
+
+    expect(events.map(event => event.data)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should treat an LF after a split CRLF as a new line break', async () => {
+    const events = await decode(['data: a\r', '\n', '\ndata: b\n\n']);
+
+    expect(events.map(event => event.data)).toEqual(['a', 'b']);
+  });
+
+  it('should reassemble lines and multi-byte characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('data: {"text":"héllo ✓"}\n\n');
+
+    const events = await decode([bytes.slice(0, 16), bytes.slice(16, 25), bytes.slice(25)]);
+
+    expect(events).toEqual([{ event: 'message', data: '{"text":"héllo ✓"}' }]);
+  });
+
+  it('should report event types and carry the last event ID forward', async () => {
+    const events = await decode(['event: delta\nid: 1\ndata: x\n\nevent: error\ndata: y\n\nid\ndata: z\n\n']);
+
+    expect(events).toEqual([
+      { event: 'delta', id: '1', data: 'x' },
+      { event: 'error', id: '1', data: 'y' },
+      { event: 'message', id: '', data: 'z' },
+    ]);
+  });
+
+  it('should parse retry only when it is an integer', async () => {
+    const events = await decode(['retry: 1500\ndata: a\n\nretry: soon\ndata: b\n\n']);
+
+    expect(events.map(event => event.retry)).toEqual([1500, 1500]);
+  });
+
+  it('should pass comments to onComment without dispatching events', async () => {
+    const onComment = vi.fn();
+
+    const events = await decode([': ping\n\n:keep-alive\ndata: a\n\n'], onComment);
+
+    expect(onComment.mock.calls).toEqual([['ping'], ['keep-alive']]);
+    expect(events).toEqual([{ event: 'message', data: 'a' }]);
+  });
+
+  it('should ignore unknown fields, empty events and a leading byte order mark', async () => {
+    const events = await decode(['﻿data: a\nfoo: bar\n\nevent: lonely\n\n\n\ndata: b\n\n']);
+
+    expect(events).toEqual([{ event: 'message', data: 'a' }, { event: 'message', data: 'b' }]);
+  });
+
+  it('should discard an event the stream ends in the middle of', async () => {
+    expect(await decode(['data: complete\n\ndata: truncated'])).toEqual([{ event: 'message', data: 'complete' }]);
+    expect(await decode(['data: no blank line\n'])).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Server-sent events decoder
+ *
+ * Implements the WHATWG event stream interpretation rules
+ * (https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation):
+ * CR, LF and CRLF line endings, `event:`/`id:`/`retry:` fields, data split
+ * across several `data:` lines, `field:value` without the space, and comment
+ * lines, which servers send as heartbeats:
+ *
+ *   const events = response.body.pipeThrough(new SSEDecoderStream());
+ *   for await (const { event, data } of events) { ... }
+ */
+
+export interface ServerSentEvent {
+  /** Event type, 'message' when the event has no `event:` field */
+  event: string;
+  /** Data lines joined with '\n' */
+  data: string;
+  /** Last event ID seen in the stream, if any */
+  id?: string;
+  /** Reconnection time the server asked for, in milliseconds */
+  retry?: number;
+}
+
+export interface SSEDecoderOptions {
+  /** Called with the text of each comment line, e.g. 'ping' for `: ping` */
+  onComment?: (comment: string) => void;
+}
+
+const LINE_BREAK = /\r\n|\r|\n/;
+
+/**
+ * Line-level state machine of the event stream format. Feed it text as it
+ * arrives; complete events are passed to `emit`.
+ */
+class SSEParser {
+  private buffer = '';
+  private started = false;
+  private endedWithCR = false;
+  private eventType = '';
+  private data = '';
+  private hasData = false;
+  private lastEventId?: string;
+  private retry?: number;
+
+  constructor(private readonly onComment?: (comment: string) => void) {}
+
+  feed(text: string, emit: (event: ServerSentEvent) => void): void {
+    if (!this.started && text !== '') {
+      // A byte order mark may only appear at the very start of the stream
+      text = text.startsWith('\uFEFF') ? text.slice(1) : text;
+      this.started = true;
+    }
+    // A CRLF split across two chunks is a single line break
+    if (this.endedWithCR && text.startsWith('\n')) {
+      text = text.slice(1);
+      this.endedWithCR = false;
+    }
+    if (text === '') {
+      return;
+    }
+    this.endedWithCR = text.endsWith('\r');
+
+    const lines = (this.buffer + text).split(LINE_BREAK);
+    this.buffer = lines.pop()!;
+    for (const line of lines) {
+      this.processLine(line, emit);
+    }
+  }
+
+  private processLine(line: string, emit: (event: ServerSentEvent) => void): void {
+    if (line === '') {
+      this.dispatch(emit);
+      return;
+    }
+    if (line.startsWith(':')) {
+      this.onComment?.(stripLeadingSpace(line.slice(1)));
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : stripLeadingSpace(line.slice(colon + 1));
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.data = this.hasData ? `${this.data}\n${value}` : value;
+        this.hasData = true;
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = Number(value);
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  private dispatch(emit: (event: ServerSentEvent) => void): void {
+    if (this.hasData) {
+      emit({
+        event: this.eventType || 'message',
+        data: this.data,
+        ...(this.lastEventId !== undefined && { id: this.lastEventId }),
+        ...(this.retry !== undefined && { retry: this.retry }),
+      });
+    }
+    this.eventType = '';
+    this.data = '';
+    this.hasData = false;
+  }
+}
+
+function stripLeadingSpace(value: string): string {
+  return value.startsWith(' ') ? value.slice(1) : value;
+}
+
+/**
+ * Decode a UTF-8 event stream into events. An event that the stream ends in
+ * the middle of (no blank line after it) is discarded, as the spec requires.
+ */
+export class SSEDecoderStream extends TransformStream<Uint8Array | string, ServerSentEvent> {
+  constructor(options: SSEDecoderOptions = {}) {
+    const decoder = new TextDecoder();
+    const parser = new SSEParser(options.onComment);
+
+    super({
+      transform(chunk, controller) {
+        const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+        parser.feed(text, (event) => controller.enqueue(event));
+      },
+      flush(controller) {
+        parser.feed(decoder.decode(), (event) => controller.enqueue(event));
+      },
+    });
+  }
+}
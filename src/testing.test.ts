@@ -0,0 +1,155 @@
+/**
+ * End-to-end tests through the real OCI SDK against the mock inference server
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { LanguageModelV2, LanguageModelV2StreamPart } from '@ai-sdk/provider';
+import { createOCI } from './index.js';
+import { startMockOCIServer, createMockAuthProvider, type MockOCIServer } from './testing.js';
+
+describe('Mock OCI Server', () => {
+  let server: MockOCIServer;
+
+  const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'Hi' }] }];
+  const tools = [{
+    type: 'function' as const,
+    name: 'bash',
+    description: 'Run a command',
+    inputSchema: { type: 'object' as const, properties: { command: { type: 'string' as const } } },
+  }];
+
+  beforeAll(async () => {
+    server = await startMockOCIServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  function model(modelId: string): LanguageModelV2 {
+    return createOCI({
+      compartmentId: 'ocid1.compartment.oc1..test',
+      region: 'us-chicago-1',
+      endpoint: server.url,
+      authProvider: createMockAuthProvider(),
+      retry: false,
+    }).languageModel(modelId);
+  }
+
+  async function collect(stream: ReadableStream<LanguageModelV2StreamPart>): Promise<LanguageModelV2StreamPart[]> {
+    const parts: LanguageModelV2StreamPart[] = [];
+    const reader = stream.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return parts;
+      parts.push(value);
+    }
+  }
+
+  function streamedText(parts: LanguageModelV2StreamPart[]): string {
+    return parts.map(part => (part.type === 'text-delta' ? part.delta : '')).join('');
+  }
+
+  describe.each([
+    ['GENERIC', 'meta.llama-3.3-70b-instruct'],
+    ['COHEREV2', 'cohere.command-a-03-2025'],
+    ['COHERE', 'cohere.command-r-plus-08-2024'],
+  ])('%s format', (apiFormat, modelId) => {
+    it('should generate text with usage', async () => {
+      server.enqueue({ text: 'Hello there', usage: { promptTokens: 12, completionTokens: 3 } });
+
+      const result = await model(modelId).doGenerate({ prompt });
+
+      expect(server.requests.at(-1)?.apiFormat).toBe(apiFormat);
+      expect(result.content).toContainEqual({ type: 'text', text: 'Hello there' });
+      expect(result.finishReason).toBe('stop');
+      if (apiFormat !== 'COHERE') {
+        expect(result.usage).toMatchObject({ inputTokens: 12, outputTokens: 3 });
+      }
+    });
+
+    it('should stream text chunks', async () => {
+      server.enqueue({ text: ['Hel', 'lo'], usage: { promptTokens: 5, completionTokens: 2 } });
+
+      const { stream } = await model(modelId).doStream({ prompt });
+      const parts = await collect(stream);
+
+      expect(server.requests.at(-1)?.isStream).toBe(true);
+      expect(streamedText(parts)).toBe('Hello');
+      expect(parts.at(-1)).toMatchObject({ type: 'finish', finishReason: 'stop' });
+    });
+
+    it('should return tool calls', async () => {
+      server.enqueue({ toolCalls: [{ id: 'call_1', name: 'bash', arguments: { command: 'ls' } }] });
+
+      const result = await model(modelId).doGenerate({ prompt, tools });
+      const toolCall = result.content.find(part => part.type === 'tool-call');
+
+      expect(toolCall).toMatchObject({ toolName: 'bash' });
+      expect(JSON.parse((toolCall as any).input)).toEqual({ command: 'ls' });
+      expect(result.finishReason).toBe('tool-calls');
+    });
+
+    it('should stream tool calls', async () => {
+      server.enqueue({ toolCalls: [{ id: 'call_1', name: 'bash', arguments: { command: 'pwd' } }] });
+
+      const { stream } = await model(modelId).doStream({ prompt, tools });
+      const parts = await collect(stream);
+      const toolCall = parts.find(part => part.type === 'tool-call');
+
+      expect(toolCall).toMatchObject({ toolName: 'bash' });
+      expect(JSON.parse((toolCall as any).input)).toEqual({ command: 'pwd' });
+      expect(parts.at(-1)).toMatchObject({ type: 'finish', finishReason: 'tool-calls' });
+    });
+  });
+
+  it('should return reasoning content for Cohere V2 thinking models', async () => {
+    server.enqueue({ reasoning: 'Let me think.', text: 'Done' });
+
+    const result = await model('cohere.command-a-reasoning-08-2025').doGenerate({ prompt });
+
+    expect(result.content).toEqual([
+      { type: 'reasoning', text: 'Let me think.' },
+      { type: 'text', text: 'Done' },
+    ]);
+  });
+
+  it('should return reasoning content for Generic reasoning models', async () => {
+    server.enqueue({ reasoning: 'Thinking...', text: 'Answer' });
+
+    const result = await model('xai.grok-3-mini').doGenerate({ prompt });
+
+    expect(result.content[0]).toEqual({ type: 'reasoning', text: 'Thinking...' });
+  });
+
+  it('should surface scripted OCI errors', async () => {
+    server.enqueue({ error: { status: 429, code: 'TooManyRequests', message: 'Service request limit is exceeded', retryAfter: 1 } });
+
+    await expect(model('meta.llama-3.3-70b-instruct').doGenerate({ prompt })).rejects.toMatchObject({
+      kind: 'throttled',
+      statusCode: 429,
+      serviceCode: 'TooManyRequests',
+    });
+  });
+
+  it('should record the request and accept responder functions', async () => {
+    server.enqueue(request => ({ text: `You sent ${request.chatDetails.chatRequest.messages.length} message(s)` }));
+
+    const result = await model('meta.llama-3.3-70b-instruct').doGenerate({ prompt });
+
+    expect(result.content).toContainEqual({ type: 'text', text: 'You sent 1 message(s)' });
+    expect(server.requests.at(-1)?.chatDetails.compartmentId).toBe('ocid1.compartment.oc1..test');
+    expect(server.requests.at(-1)?.headers.authorization).toContain('Signature');
+  });
+
+  it('should stream raw scripted events', async () => {
+    server.enqueue({ events: [{ index: 0, message: { role: 'ASSISTANT', content: [{ type: 'TEXT', text: 'raw' }] } }] });
+
+    const { stream } = await model('meta.llama-3.3-70b-instruct').doStream({ prompt });
+
+    expect(streamedText(await collect(stream))).toBe('raw');
+  });
+
+  it('should fail when no scripted response is left', async () => {
+    await expect(model('meta.llama-3.3-70b-instruct').doGenerate({ prompt })).rejects.toMatchObject({ statusCode: 500 });
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * Mock OCI GenAI inference server for offline integration tests
+ *
+ * Speaks the `/20231130/actions/chat` protocol with scripted COHERE, COHEREV2
+ * and GENERIC responses, streaming (SSE) and non-streaming, so agents can be
+ * tested through the real provider and OCI SDK code path:
+ *
+ *   const server = await startMockOCIServer();
+ *   server.enqueue({ text: 'Hello!' });
+ *   const oci = createOCI({
+ *     compartmentId: 'ocid1.compartment.oc1..test',
+ *     region: 'us-chicago-1',
+ *     endpoint: server.url,
+ *     authProvider: createMockAuthProvider(),
+ *   });
+ */
+import * as crypto from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as common from 'oci-common';
+
+const CHAT_PATH = '/20231130/actions/chat';
+
+export type MockApiFormat = 'COHERE' | 'COHEREV2' | 'GENERIC';
+
+export interface MockToolCall {
+  id?: string;
+  name: string;
+  /** Arguments as an object or a raw JSON string */
+  arguments: Record<string, unknown> | string;
+}
+
+export interface MockUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  reasoningTokens?: number;
+  cachedTokens?: number;
+}
+
+export interface MockError {
+  /** HTTP status code, e.g. 429 or 500 */
+  status: number;
+  /** OCI service code, e.g. TooManyRequests */
+  code: string;
+  message?: string;
+  /** Value for the Retry-After header, in seconds */
+  retryAfter?: number;
+}
+
+/**
+ * Scripted response for one chat request. Text and reasoning given as arrays
+ * are streamed one chunk per SSE event.
+ */
+export interface MockChatScript {
+  text?: string | string[];
+  reasoning?: string | string[];
+  /** Cohere V2 tool plan, sent before the tool calls */
+  toolPlan?: string;
+  toolCalls?: MockToolCall[];
+  usage?: MockUsage;
+  /** Raw OCI finish reason; defaults to the format's complete or tool-call reason */
+  finishReason?: string;
+  /** Respond with an OCI error instead of a chat result */
+  error?: MockError;
+  /** Raw SSE event payloads that replace the generated stream */
+  events?: unknown[];
+  /** Delay between SSE events in milliseconds */
+  chunkDelayMs?: number;
+}
+
+export interface MockChatRequest {
+  apiFormat: MockApiFormat;
+  isStream: boolean;
+  chatDetails: any;
+  headers: http.IncomingHttpHeaders;
+}
+
+export type MockChatResponder =
+  | MockChatScript
+  | ((request: MockChatRequest) => MockChatScript | Promise<MockChatScript>);
+
+export interface MockOCIServerOptions {
+  /** Port to listen on (default: random free port) */
+  port?: number;
+  /** Host to bind (default 127.0.0.1) */
+  host?: string;
+  /** Used when the queue of scripted responses is empty */
+  defaultResponse?: MockChatResponder;
+}
+
+export interface MockOCIServer {
+  /** Base URL to pass as the provider's `endpoint` setting */
+  readonly url: string;
+  /** Chat requests received so far, oldest first */
+  readonly requests: MockChatRequest[];
+  /** Queue responses for the next chat requests, in order */
+  enqueue(...responses: MockChatResponder[]): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a mock inference server. Requests consume queued responses in order,
+ * falling back to `defaultResponse`; with neither, the server answers 500.
+ */
+export async function startMockOCIServer(options: MockOCIServerOptions = {}): Promise<MockOCIServer> {
+  const queue: MockChatResponder[] = [];
+  const requests: MockChatRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      if (!res.headersSent) {
+        sendError(res, { status: 500, code: 'InternalServerError', message: String(error?.message || error) });
+      } else {
+        res.destroy();
+      }
+    });
+  });
+
+  async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.method !== 'POST' || req.url?.split('?')[0] !== CHAT_PATH) {
+      sendError(res, { status: 404, code: 'NotAuthorizedOrNotFound', message: `Unknown route ${req.method} ${req.url}` });
+      return;
+    }
+
+    const chatDetails = JSON.parse(await readBody(req));
+    const chatRequest = chatDetails.chatRequest || {};
+    const request: MockChatRequest = {
+      apiFormat: chatRequest.apiFormat,
+      isStream: chatRequest.isStream === true,
+      chatDetails,
+      headers: req.headers,
+    };
+    requests.push(request);
+
+    const responder = queue.shift() ?? options.defaultResponse;
+    if (!responder) {
+      sendError(res, { status: 500, code: 'InternalServerError', message: 'Mock OCI server has no scripted response left' });
+      return;
+    }
+    const script = typeof responder === 'function' ? await responder(request) : responder;
+
+    if (script.error) {
+      sendError(res, script.error);
+    } else if (request.isStream) {
+      await sendStream(res, request.apiFormat, script);
+    } else {
+      sendJson(res, 200, buildChatResult(request.apiFormat, chatDetails, script));
+    }
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => resolve());
+  });
+  const address = server.address() as AddressInfo;
+  const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    requests,
+    enqueue(...responses) {
+      queue.push(...responses);
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    },
+  };
+}
+
+let mockPrivateKey: string | undefined;
+
+/**
+ * Auth provider with a throwaway key pair. The mock server does not verify
+ * signatures, but the OCI SDK needs a valid key to sign requests.
+ */
+export function createMockAuthProvider(): common.SimpleAuthenticationDetailsProvider {
+  mockPrivateKey ??= crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+  }).privateKey;
+
+  return new common.SimpleAuthenticationDetailsProvider(
+    'ocid1.tenancy.oc1..mock',
+    'ocid1.user.oc1..mock',
+    '00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00',
+    mockPrivateKey,
+    null
+  );
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+function requestId(): string {
+  return `mock-${crypto.randomUUID()}`;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { 'content-type': 'application/json', 'opc-request-id': requestId(), ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: http.ServerResponse, error: MockError): void {
+  sendJson(
+    res,
+    error.status,
+    { code: error.code, message: error.message || `Mock error ${error.code}` },
+    error.retryAfter !== undefined ? { 'retry-after': String(error.retryAfter) } : {}
+  );
+}
+
+async function sendStream(res: http.ServerResponse, apiFormat: MockApiFormat, script: MockChatScript): Promise<void> {
+  res.writeHead(200, { 'content-type': 'text/event-stream', 'opc-request-id': requestId() });
+  for (const event of script.events ?? buildStreamEvents(apiFormat, script)) {
+    if (res.destroyed) return;
+    if (script.chunkDelayMs) {
+      await new Promise(resolve => setTimeout(resolve, script.chunkDelayMs));
+    }
+    res.write(`data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`);
+  }
+  res.end();
+}
+
+function chunks(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function toolCallId(toolCall: MockToolCall, index: number): string {
+  return toolCall.id ?? `call_${index + 1}`;
+}
+
+function argumentsJson(toolCall: MockToolCall): string {
+  return typeof toolCall.arguments === 'string' ? toolCall.arguments : JSON.stringify(toolCall.arguments);
+}
+
+function argumentsObject(toolCall: MockToolCall): Record<string, unknown> {
+  return typeof toolCall.arguments === 'string' ? JSON.parse(toolCall.arguments) : toolCall.arguments;
+}
+
+function finishReason(apiFormat: MockApiFormat, script: MockChatScript): string {
+  if (script.finishReason) return script.finishReason;
+  const hasToolCalls = (script.toolCalls?.length ?? 0) > 0;
+  if (apiFormat === 'GENERIC') return hasToolCalls ? 'tool_calls' : 'stop';
+  return hasToolCalls ? 'TOOL_CALL' : 'COMPLETE';
+}
+
+function buildUsage(usage: MockUsage | undefined): Record<string, unknown> | undefined {
+  if (!usage) return undefined;
+  const promptTokens = usage.promptTokens ?? 0;
+  const completionTokens = usage.completionTokens ?? 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    ...(usage.reasoningTokens !== undefined && {
+      completionTokensDetails: { reasoningTokens: usage.reasoningTokens },
+    }),
+    ...(usage.cachedTokens !== undefined && {
+      promptTokensDetails: { cachedTokens: usage.cachedTokens },
+    }),
+  };
+}
+
+function buildStreamEvents(apiFormat: MockApiFormat, script: MockChatScript): unknown[] {
+  const events: unknown[] = [];
+  const usage = buildUsage(script.usage);
+  const toolCalls = script.toolCalls ?? [];
+
+  if (apiFormat === 'COHERE') {
+    for (const text of chunks(script.text)) {
+      events.push({ apiFormat, text });
+    }
+    events.push({
+      apiFormat,
+      finishReason: finishReason(apiFormat, script),
+      ...(toolCalls.length > 0 && {
+        toolCalls: toolCalls.map(tc => ({ name: tc.name, parameters: argumentsObject(tc) })),
+      }),
+      ...(usage && { usage }),
+    });
+    return events;
+  }
+
+  if (apiFormat === 'COHEREV2') {
+    const message = (fields: Record<string, unknown>) => ({ apiFormat, message: { role: 'ASSISTANT', ...fields } });
+    for (const thinking of chunks(script.reasoning)) {
+      events.push(message({ content: [{ type: 'THINKING', thinking }] }));
+    }
+    if (script.toolPlan) {
+      events.push(message({ toolPlan: script.toolPlan }));
+    }
+    for (const text of chunks(script.text)) {
+      events.push(message({ content: [{ type: 'TEXT', text }] }));
+    }
+    if (toolCalls.length > 0) {
+      events.push(message({
+        toolCalls: toolCalls.map((tc, i) => ({
+          id: toolCallId(tc, i),
+          type: 'FUNCTION',
+          function: { name: tc.name, arguments: argumentsJson(tc) },
+        })),
+      }));
+    }
+    events.push({ apiFormat, finishReason: finishReason(apiFormat, script), ...(usage && { usage }) });
+    return events;
+  }
+
+  const message = (fields: Record<string, unknown>) => ({ index: 0, message: { role: 'ASSISTANT', ...fields } });
+  for (const reasoningContent of chunks(script.reasoning)) {
+    events.push(message({ reasoningContent }));
+  }
+  for (const text of chunks(script.text)) {
+    events.push(message({ content: [{ type: 'TEXT', text }] }));
+  }
+  if (toolCalls.length > 0) {
+    events.push(message({
+      toolCalls: toolCalls.map((tc, i) => ({
+        id: toolCallId(tc, i),
+        type: 'FUNCTION',
+        name: tc.name,
+        arguments: argumentsJson(tc),
+      })),
+    }));
+  }
+  events.push({ index: 0, finishReason: finishReason(apiFormat, script) });
+  if (usage) {
+    events.push({ usage });
+  }
+  return events;
+}
+
+function buildChatResult(apiFormat: MockApiFormat, chatDetails: any, script: MockChatScript): unknown {
+  const usage = buildUsage(script.usage);
+  const toolCalls = script.toolCalls ?? [];
+  const text = chunks(script.text).join('');
+  const reasoning = chunks(script.reasoning).join('');
+  const timeCreated = new Date().toISOString();
+  let chatResponse: Record<string, unknown>;
+
+  if (apiFormat === 'COHERE') {
+    chatResponse = {
+      apiFormat,
+      text,
+      finishReason: finishReason(apiFormat, script),
+      ...(toolCalls.length > 0 && {
+        toolCalls: toolCalls.map(tc => ({ name: tc.name, parameters: argumentsObject(tc) })),
+      }),
+      ...(usage && { usage }),
+    };
+  } else if (apiFormat === 'COHEREV2') {
+    chatResponse = {
+      apiFormat,
+      message: {
+        role: 'ASSISTANT',
+        content: [
+          ...(reasoning ? [{ type: 'THINKING', thinking: reasoning }] : []),
+          ...(text ? [{ type: 'TEXT', text }] : []),
+        ],
+        ...(script.toolPlan && { toolPlan: script.toolPlan }),
+        ...(toolCalls.length > 0 && {
+          toolCalls: toolCalls.map((tc, i) => ({
+            id: toolCallId(tc, i),
+            type: 'FUNCTION',
+            function: { name: tc.name, arguments: argumentsJson(tc) },
+          })),
+        }),
+      },
+      finishReason: finishReason(apiFormat, script),
+      ...(usage && { usage }),
+    };
+  } else {
+    chatResponse = {
+      apiFormat,
+      timeCreated,
+      choices: [{
+        index: 0,
+        message: {
+          role: 'ASSISTANT',
+          content: text ? [{ type: 'TEXT', text }] : [],
+          ...(reasoning && { reasoningContent: reasoning }),
+          ...(toolCalls.length > 0 && {
+            toolCalls: toolCalls.map((tc, i) => ({
+              id: toolCallId(tc, i),
+              type: 'FUNCTION',
+              name: tc.name,
+              arguments: argumentsJson(tc),
+            })),
+          }),
+        },
+        finishReason: finishReason(apiFormat, script),
+      }],
+      ...(usage && { usage }),
+    };
+  }
+
+  return {
+    modelId: chatDetails.servingMode?.modelId ?? chatDetails.servingMode?.endpointId,
+    modelVersion: 'mock',
+    chatResponse,
+  };
+}